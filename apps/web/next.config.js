@@ -1,8 +1,16 @@
+const path = require("path");
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // keep your existing settings (e.g., output: 'export', images.unoptimized, etc.)
+  experimental: {
+    // @perp-bond/sdk is compiled from source (see tsconfig "paths")
+    externalDir: true,
+  },
   webpack: (config) => {
     config.resolve = config.resolve || {};
+    // Fall back to this app's node_modules for the SDK's own imports (viem)
+    config.resolve.modules = [...(config.resolve.modules || ["node_modules"]), path.resolve(__dirname, "node_modules")];
     config.resolve.alias = {
       ...(config.resolve.alias || {}),
       // ⛔️ Don’t try to bundle RN storage (MetaMask SDK optional dep)
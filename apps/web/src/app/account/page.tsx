@@ -1,12 +1,20 @@
 "use client";
+import { useMemo } from "react";
+import { useChainId } from "wagmi";
 import ClaimCard from "@/components/ClaimCard";
+import NotDeployed from "@/components/NotDeployed";
+import PositionCard from "@/components/PositionCard";
 import ToggleAutoCompound from "@/components/ToggleAutoCompound";
+import { sdkFeatures } from "@/lib/sdk";
 export default function AccountPage(){
+  const chainId = useChainId();
+  const features = useMemo(() => sdkFeatures(chainId), [chainId]);
+  if (!features.position) return <NotDeployed what="PerpBond"/>;
   return (
     <div className="grid gap-4">
-      <ClaimCard/>
-      <ToggleAutoCompound/>
+      <PositionCard/>
+      {features.claim && <ClaimCard/>}
+      {features.autoCompound && <ToggleAutoCompound/>}
     </div>
   );
 }
-
@@ -1,4 +1,11 @@
 "use client";
+import { useMemo } from "react";
+import { useChainId } from "wagmi";
 import DepositCard from "@/components/DepositCard";
-export default function DepositPage(){ return <DepositCard/>; }
-
+import NotDeployed from "@/components/NotDeployed";
+import { sdkFeatures } from "@/lib/sdk";
+export default function DepositPage(){
+  const chainId = useChainId();
+  const features = useMemo(() => sdkFeatures(chainId), [chainId]);
+  return features.deposit ? <DepositCard/> : <NotDeployed what="PerpBond"/>;
+}
@@ -1,4 +1,11 @@
 "use client";
+import { useMemo } from "react";
+import { useChainId } from "wagmi";
 import EpochTable from "@/components/EpochTable";
-export default function EpochsPage(){ return <EpochTable/>; }
-
+import NotDeployed from "@/components/NotDeployed";
+import { sdkFeatures } from "@/lib/sdk";
+export default function EpochsPage(){
+  const chainId = useChainId();
+  const features = useMemo(() => sdkFeatures(chainId), [chainId]);
+  return features.epochs ? <EpochTable/> : <NotDeployed what="The Distributor"/>;
+}
@@ -1,15 +1,20 @@
 "use client";
-import { useEffect, useState } from "react";
-import { getAdapters } from "@/lib/sdk";
+import { useEffect, useMemo, useState } from "react";
+import { useChainId } from "wagmi";
+import NotDeployed from "@/components/NotDeployed";
+import { sdkFeatures, sdkGetAdapters, type AdapterRow } from "@/lib/sdk";
 export default function StrategyPage(){
-  const [adapters,setAdapters]=useState<{name:string; cap:number; active:boolean}[]>([]);
-  useEffect(()=>{ getAdapters().then(setAdapters).catch(()=>{}); },[]);
+  const chainId = useChainId();
+  const features = useMemo(() => sdkFeatures(chainId), [chainId]);
+  const [adapters,setAdapters]=useState<AdapterRow[]>([]);
+  useEffect(()=>{ sdkGetAdapters().then(setAdapters).catch(()=>{}); },[chainId]);
+  if (!features.adapters) return <NotDeployed what="The adapter registry"/>;
   return (
     <div className="rounded-2xl bg-neutral-900 p-4">
       <h2 className="text-xl mb-3">Adapters</h2>
       {adapters.map(a=>(
-        <div key={a.name} className="flex justify-between border-b border-neutral-800 py-2 last:border-none">
-          <span>{a.name}</span><span className="text-neutral-400">Cap: ${a.cap.toLocaleString()} {a.active?'• active':'• paused'}</span>
+        <div key={a.adapter} className="flex justify-between border-b border-neutral-800 py-2 last:border-none">
+          <span>{a.name}</span><span className="text-neutral-400">TVL: ${a.tvl.toLocaleString()} • Cap: {a.cap?`$${a.cap.toLocaleString()}`:'none'}{a.utilisation!==null?` (${(a.utilisation*100).toFixed(1)}%)`:''} {a.active?'• active':'• paused'}</span>
         </div>
       ))}
       {!adapters.length && <div className="text-neutral-400">Loading…</div>}
@@ -1,17 +1,31 @@
 "use client";
 import { useEffect, useState } from "react";
-import { getClaimableUSDC, claimUSDC } from "@/lib/sdk";
+import { useAccount, useWalletClient } from "wagmi";
+import { sdkGetClaimStatus, sdkClaimUSDCWith, sdkClaimAllWith, errorMessage, type ClaimView } from "@/lib/sdk";
 
 export default function ClaimCard(){
-  const [claimable,setClaimable]=useState<string>("—");
-  const [busy,setBusy]=useState(false);
-  useEffect(()=>{ getClaimableUSDC().then(v=>setClaimable(v)); },[]);
+  const { address: acct } = useAccount();
+  const { data: wallet } = useWalletClient();
+  const [status,setStatus]=useState<ClaimView|null>(null);
+  const [busy,setBusy]=useState<string|null>(null);
+  const [error,setError]=useState<string|null>(null);
+  const refresh=async()=>{ setStatus(acct ? await sdkGetClaimStatus(acct) : null); };
+  useEffect(()=>{
+    let cancelled=false;
+    setStatus(null); setError(null);
+    if(acct) sdkGetClaimStatus(acct).then((s)=>{ if(!cancelled) setStatus(s); }, (e)=>{ if(!cancelled) setError(errorMessage(e)); });
+    return ()=>{ cancelled=true; };
+  },[acct]);
+  const run=async(label:string, send:()=>Promise<unknown>)=>{ setBusy(label); setError(null); try{ await send(); await refresh(); } catch(e){ setError(errorMessage(e)); } finally{ setBusy(null); } };
+  const many=(status?.claimsNeeded ?? 0) > 1;
   return (
     <div className="rounded-2xl bg-neutral-900 p-4 grid gap-3 max-w-md">
       <h3 className="text-lg">Claimable USDC</h3>
-      <div className="text-2xl">{claimable}</div>
-      <button disabled={busy} onClick={async()=>{ setBusy(true); try{ await claimUSDC(); } finally{ setBusy(false); }}} className="rounded-xl bg-white/10 hover:bg-white/20 p-2">{busy?'Claiming…':'Claim'}</button>
+      <div className="text-2xl">{status?.total ?? "—"}</div>
+      {many && status && <div className="text-sm text-neutral-400">{status.unclaimedEpochs} unclaimed epochs: {status.claimsNeeded} claims of up to {status.maxEpochsPerClaim} epochs each. The next claim pays {status.nextClaim}.</div>}
+      <button disabled={!!busy||!acct} onClick={()=>run("Claiming…", ()=>sdkClaimUSDCWith(wallet))} className="rounded-xl bg-white/10 hover:bg-white/20 p-2">{busy ?? (acct?'Claim':'Connect wallet')}</button>
+      {many && status && <button disabled={!!busy} onClick={()=>run(`Claim 1/${status.claimsNeeded}…`, ()=>sdkClaimAllWith(wallet, (p)=>setBusy(p.done<p.total ? `Claim ${p.done+1}/${p.total}…` : "Refreshing…")))} className="rounded-xl bg-white/10 hover:bg-white/20 p-2">Claim all ({status.claimsNeeded} txs)</button>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
     </div>
   );
 }
-
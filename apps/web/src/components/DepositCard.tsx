@@ -1,20 +1,28 @@
 "use client";
-import { useState } from "react";
-import { depositUSDC } from "@/lib/sdk";
+import { useEffect, useState } from "react";
+import { useAccount, useWalletClient } from "wagmi";
+import { depositModeLabel, errorMessage, sdkDepositUSDCWith, sdkGetDepositMode, type DepositMode } from "@/lib/sdk";
 
 export default function DepositCard(){
+  const { address: acct } = useAccount();
+  const { data: wallet } = useWalletClient();
   const [amt,setAmt]=useState("");
   const [busy,setBusy]=useState(false);
+  const [error,setError]=useState<string|null>(null);
+  const [mode,setMode]=useState<Exclude<DepositMode,"auto">|null>(null);
+  useEffect(()=>{ sdkGetDepositMode(wallet).then(setMode,()=>setMode(null)); },[wallet]);
   const onDeposit=async()=>{
-    setBusy(true);
-    try{ await depositUSDC(amt); } finally{ setBusy(false); }
+    setBusy(true); setError(null);
+    // Reverts arrive as PerpBondError, whose message is already decoded from the contract error.
+    try{ await sdkDepositUSDCWith(wallet, acct, amt, mode ?? "auto"); setAmt(""); } catch(e){ setError(errorMessage(e)); } finally{ setBusy(false); }
   };
   return (
     <div className="rounded-2xl bg-neutral-900 p-4 grid gap-3 max-w-md">
       <h3 className="text-lg">Deposit USDC</h3>
       <input value={amt} onChange={e=>setAmt(e.target.value)} placeholder="0.0" className="bg-neutral-800 p-2 rounded-xl outline-none"/>
-      <button disabled={busy} onClick={onDeposit} className="rounded-xl bg-white/10 hover:bg-white/20 p-2">{busy?'Depositing…':'Deposit'}</button>
+      {mode && <p className="text-xs text-neutral-400">Approval: {depositModeLabel[mode]}</p>}
+      <button disabled={busy||!acct} onClick={onDeposit} className="rounded-xl bg-white/10 hover:bg-white/20 p-2">{busy?'Depositing…':acct?'Deposit':'Connect wallet'}</button>
+      {error && <p className="text-xs text-red-400">{error}</p>}
     </div>
   );
 }
-
@@ -0,0 +1,23 @@
+"use client";
+import { useEffect, useState } from "react";
+import { sdkGetEpochs, type EpochRow } from "@/lib/sdk";
+
+export default function EpochTable(){
+  const [rows,setRows]=useState<EpochRow[]>([]);
+  const [loading,setLoading]=useState(true);
+  useEffect(()=>{ sdkGetEpochs().then(setRows).catch(()=>{}).finally(()=>setLoading(false)); },[]);
+  return (
+    <div className="rounded-2xl bg-neutral-900 p-4">
+      <h2 className="text-xl mb-3">Epoch Distributions</h2>
+      {rows.map(e=>(
+        <div key={e.epochId} className="grid grid-cols-4 border-b border-neutral-800 py-2 last:border-none text-sm">
+          <span>#{e.epochId}</span>
+          <span className="text-neutral-400">{e.date}</span>
+          <span>${e.usdc.toLocaleString(undefined,{maximumFractionDigits:2})}</span>
+          <span className="text-neutral-400">{(e.apy*100).toFixed(2)}%</span>
+        </div>
+      ))}
+      {!rows.length && <div className="text-neutral-400">{loading?'Loading…':'No epochs yet.'}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+"use client";
+
+/** Shown by standalone pages in place of cards whose contracts aren't deployed on the current chain. */
+export default function NotDeployed({ what }: { what: string }){
+  return <div className="rounded-2xl bg-neutral-900 p-4 max-w-md text-sm text-amber-400">{what} is not deployed on this network.</div>;
+}
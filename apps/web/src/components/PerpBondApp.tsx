@@ -1,27 +1,47 @@
 "use client";
 
-import React, { useMemo, useState, useEffect } from "react";
+import React, { useCallback, useMemo, useState, useEffect } from "react";
 import dynamic from "next/dynamic";
 
-import { useAccount, useWalletClient } from "wagmi";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
 
 import {
   sdkGetOverview,
   sdkGetAdapters,
   sdkGetEpochs,
-  sdkGetClaimableUSDC,
+  sdkGetClaimStatus,
   sdkClaimUSDCWith,
+  sdkClaimAllWith,
   sdkGetAutoCompound,
   sdkSetAutoCompoundWith,
   sdkDepositUSDCWith,
+  sdkGetDepositMode,
+  sdkGetPosition,
+  sdkGetCompoundPreview,
+  sdkGetCompoundHistory,
+  sdkPreviewDeposit,
   sdkGetUsdcBalance,
+  sdkFeatures,
+  depositModeLabel,
+  errorMessage,
+  type ClaimProgress,
+  type ClaimView,
+  type CompoundEventView,
+  type CompoundPreviewView,
+  type DepositMode,
+  type DepositPreview,
+  type PositionView,
 } from "@/lib/sdk";
 
 const Connect = dynamic(() => import("./Connect"), { ssr: false });
 
 /* ---------- Types ---------- */
-type Overview = { tvl: number; apy: number; allocations: { name: string; bps: number }[] };
-type AdapterRow = { name: string; cap: number; active: boolean; tvl: number; apy: number };
+type Allocation = { name: string; bps: number; adapter: string };
+type Overview = { tvl: number; apy: number; allocations: Allocation[] };
+type AdapterRow = {
+  name: string; cap: number; active: boolean; tvl: number; apy: number | null;
+  adapter: string; utilisation: number | null; maxBpsOfVault: number;
+};
 type EpochRow = { epochId: number; date: string; usdc: number; apy: number };
 
 /* ---------- Utils ---------- */
@@ -41,108 +61,186 @@ export default function PerpBondApp() {
   const [overview, setOverview] = useState<Overview | null>(null);
   const [adapters, setAdapters] = useState<AdapterRow[]>([]);
   const [epochs, setEpochs] = useState<EpochRow[]>([]);
-  const [claimable, setClaimable] = useState<string>("0.00");
+  const [claim, setClaim] = useState<ClaimView | null>(null);
   const [autoCompound, setAutoCompound] = useState<boolean>(false);
+  const [position, setPosition] = useState<PositionView | null>(null);
+  const [compoundPreview, setCompoundPreview] = useState<CompoundPreviewView | null>(null);
+  const [compoundHistory, setCompoundHistory] = useState<CompoundEventView[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [userError, setUserError] = useState<string | null>(null);
   const { address: acct } = useAccount();
   const { data: wallet } = useWalletClient();
+  const chainId = useChainId();
+  const features = useMemo(() => sdkFeatures(chainId), [chainId]);
 
   const [usdcBal, setUsdcBal] = useState<string>("0.00");
+  const previewDeposit = useCallback((amt: string) => sdkPreviewDeposit(amt, acct), [acct]);
+  const [depositMode, setDepositMode] = useState<Exclude<DepositMode, "auto"> | null>(null);
 
+  // Each effect drops its result once the account or chain has changed under it.
   useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setDepositMode(null);
+      const mode = await sdkGetDepositMode(wallet).catch(() => null);
+      if (!cancelled) setDepositMode(mode);
+    })();
+    return () => { cancelled = true; };
+  }, [wallet, chainId]);
+
+  useEffect(() => {
+    let cancelled = false;
     (async () => {
       setUsdcBal("0.00");
       if (!acct) return;
-      setUsdcBal(await sdkGetUsdcBalance(acct));
+      try {
+        const bal = await sdkGetUsdcBalance(acct);
+        if (!cancelled) setUsdcBal(bal);
+      } catch (e) {
+        if (!cancelled) setUserError(errorMessage(e));
+      }
     })();
-  }, [acct]);
+    return () => { cancelled = true; };
+  }, [acct, chainId]);
 
 
   useEffect(() => {
+    let cancelled = false;
     (async () => {
       setLoading(true);
+      setLoadError(null);
       try {
         const [ov, ads, eps] = await Promise.all([
           sdkGetOverview(),
           sdkGetAdapters(),
           sdkGetEpochs(),
         ]);
+        if (cancelled) return;
         setOverview(ov);
         setAdapters(ads);
         setEpochs(eps);
+      } catch (e) {
+        if (!cancelled) setLoadError(errorMessage(e));
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     })();
-  }, []);
+    return () => { cancelled = true; };
+  }, [chainId]);
 
   // refresh user-dependent reads when wallet changes
   useEffect(() => {
+    let cancelled = false;
     (async () => {
-      setClaimable("0.00");
+      setClaim(null);
       setAutoCompound(false);
+      setPosition(null);
+      setCompoundPreview(null);
+      setCompoundHistory([]);
+      setUserError(null);
       if (!acct) return;
-      const [cl, ac] = await Promise.all([
-        sdkGetClaimableUSDC(acct),
-        sdkGetAutoCompound(acct),
-      ]);
-      setClaimable(cl);
-      setAutoCompound(ac);
+      try {
+        const [cl, ac, pos, preview, history] = await Promise.all([
+          sdkGetClaimStatus(acct),
+          sdkGetAutoCompound(acct),
+          sdkGetPosition(acct).catch(() => null),
+          sdkGetCompoundPreview(acct).catch(() => null),
+          sdkGetCompoundHistory(acct).catch(() => []),
+        ]);
+        if (cancelled) return;
+        setClaim(cl);
+        setAutoCompound(ac);
+        setPosition(pos);
+        setCompoundPreview(preview);
+        setCompoundHistory(history);
+      } catch (e) {
+        if (!cancelled) setUserError(errorMessage(e));
+      }
     })();
-  }, [acct]);
+    return () => { cancelled = true; };
+  }, [acct, chainId]);
 
   return (
     <div className="min-h-screen bg-neutral-950 text-neutral-100">
       <div className="mx-auto max-w-6xl p-6 md:p-10 space-y-8">
         <Header />
 
+        {!features.deposit && (
+          <section className="rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-amber-400">
+            PerpBond is not deployed on this network. Switch to a supported network in your wallet.
+          </section>
+        )}
+
+        {(loadError || userError) && (
+          <section className="rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-red-400">
+            {loadError && <div>Could not load protocol data: {loadError}</div>}
+            {userError && <div>Could not load your account: {userError}</div>}
+          </section>
+        )}
+
         <section>
           <div className="grid gap-4 md:grid-cols-3">
             <StatCard label="TVL" value={overview ? formatUSD(overview.tvl) : "—"} />
-            <StatCard label="Projected Net APY" value={overview ? `${formatPct(overview.apy)}` : "—"} />
+            <StatCard label="Trailing Net APY" value={overview ? `${formatPct(overview.apy)}` : "—"} />
             <StatCard label="Adapters" value={overview ? String(overview.allocations.length) : "—"} />
           </div>
         </section>
 
+        {position && (
+          <section>
+            <PositionCard position={position} />
+          </section>
+        )}
+
         <section className="grid gap-6 md:grid-cols-2">
           <DepositCard
-            onDeposit={async (amt) => { await sdkDepositUSDCWith(wallet, acct, amt); }}
-            disabledReason={!acct ? "Connect wallet" : undefined}
+            onDeposit={async (amt) => { await sdkDepositUSDCWith(wallet, acct, amt, depositMode ?? "auto"); }}
+            disabledReason={!features.deposit ? "Not deployed on this network" : !acct ? "Connect wallet" : undefined}
             usdcBalance={usdcBal}
+            mode={depositMode}
+            onPreview={previewDeposit}
           />
 
-          <ClaimCard
-            claimable={claimable}
+          {features.claim && <ClaimCard
+            status={claim}
             onClaim={async () => {
               await sdkClaimUSDCWith(wallet);
-              if (acct) {
-                const cl = await sdkGetClaimableUSDC(acct);
-                setClaimable(cl);
-              }
+              if (acct) setClaim(await sdkGetClaimStatus(acct));
+            }}
+            onClaimAll={async (onProgress) => {
+              await sdkClaimAllWith(wallet, onProgress);
+              if (acct) setClaim(await sdkGetClaimStatus(acct));
             }}
             disabledReason={!acct ? "Connect wallet" : undefined}
-          />
+          />}
         </section>
 
         <section className="grid gap-6 md:grid-cols-2">
           <AllocationCard allocations={overview?.allocations ?? []} />
-          <AutoCompoundCard
+          {features.autoCompound && <AutoCompoundCard
             on={autoCompound}
+            preview={compoundPreview}
+            history={compoundHistory}
             toggle={async () => {
               const next = !autoCompound;
               await sdkSetAutoCompoundWith(wallet, next);
               setAutoCompound(next);
             }}
             disabledReason={!acct ? "Connect wallet" : undefined}
-          />
+          />}
         </section>
 
-        <section>
-          <AdaptersCard rows={adapters} loading={loading} />
-        </section>
+        {features.adapters && (
+          <section>
+            <AdaptersCard rows={adapters} loading={loading} />
+          </section>
+        )}
 
-        <section>
-          <EpochsCard rows={epochs} />
-        </section>
+        {features.epochs && (
+          <section>
+            <EpochsCard rows={epochs} />
+          </section>
+        )}
 
         <Footer />
       </div>
@@ -174,11 +272,29 @@ function StatCard({ label, value }: { label: string; value: string }) {
 }
 
 function DepositCard({
-    onDeposit, disabledReason, usdcBalance,
-  }: { onDeposit: (amt: string) => Promise<void>; disabledReason?: string; usdcBalance?: string }) {
+    onDeposit, disabledReason, usdcBalance, mode, onPreview,
+  }: {
+    onDeposit: (amt: string) => Promise<void>; disabledReason?: string; usdcBalance?: string;
+    mode?: Exclude<DepositMode, "auto"> | null;
+    onPreview?: (amt: string) => Promise<DepositPreview | null>;
+  }) {
   const [amt, setAmt] = useState("");
   const [busy, setBusy] = useState(false);
-  const disabled = !!disabledReason || busy || !amt || Number(amt) <= 0;
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<DepositPreview | null>(null);
+  const blocked = !!preview?.blockers.length;
+  const disabled = !!disabledReason || busy || !amt || Number(amt) <= 0 || blocked;
+
+  // Live preview while typing (debounced).
+  useEffect(() => {
+    setPreview(null);
+    if (!onPreview || !amt || Number(amt) <= 0) return;
+    let stale = false;
+    const t = setTimeout(() => {
+      onPreview(amt).then((p) => { if (!stale) setPreview(p); }, () => {});
+    }, 300);
+    return () => { stale = true; clearTimeout(t); };
+  }, [amt, onPreview]);
 
   return (
     <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
@@ -201,15 +317,20 @@ function DepositCard({
         <div className="text-xs text-neutral-400">
           Wallet: {usdcBalance ?? "—"} USDC
         </div>
+        {mode && <div className="text-xs text-neutral-400">Approval: {depositModeLabel[mode]}</div>}
+        {preview && <DepositPreviewInfo preview={preview} />}
 
         <div className="flex gap-2">
           <button
             disabled={disabled}
             onClick={async () => {
               setBusy(true);
+              setError(null);
               try {
                 await onDeposit(amt);
                 setAmt("");
+              } catch (e) {
+                setError(errorMessage(e));
               } finally {
                 setBusy(false);
               }
@@ -231,15 +352,56 @@ function DepositCard({
           <button onClick={() => setAmt("1000")} className="rounded-xl px-3 py-2 text-sm border border-white/10 hover:bg-white/5">$1k</button>
           <button onClick={() => setAmt("10000")} className="rounded-xl px-3 py-2 text-sm border border-white/10 hover:bg-white/5">$10k</button>
         </div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
         <p className="text-xs text-neutral-400">Principal is non-redeemable. Yield is distributed in USDC weekly/monthly.</p>
       </div>
     </div>
   );
 }
 
-function ClaimCard({ claimable, onClaim, disabledReason }: { claimable: string; onClaim: () => Promise<void>; disabledReason?: string }) {
+function DepositPreviewInfo({ preview }: { preview: DepositPreview }) {
+  const usdc = (raw: bigint) => formatUSD(Number(raw) / 1e6);
+  return (
+    <div className="rounded-xl border border-white/10 bg-neutral-900/40 p-3 text-xs space-y-1">
+      <div className="flex justify-between">
+        <span className="text-neutral-400">You receive</span>
+        <span>{(Number(preview.shares) / 1e18).toLocaleString(undefined, { maximumFractionDigits: 4 })} PerpBond</span>
+      </div>
+      {preview.idleBefore > 0n && (
+        <div className="text-neutral-400">The next rebalance also deploys {usdc(preview.idleBefore)} already idle in the vault.</div>
+      )}
+      {preview.adapters.map((a) => (
+        <div key={a.adapter} className="flex justify-between text-neutral-400">
+          <span>{a.name} ({(a.targetBps / 100).toFixed(0)}%)</span>
+          <span className={a.headroom !== null && a.allocated > a.headroom ? "text-amber-400" : undefined}>
+            {usdc(a.allocated)} / {a.headroom === null ? "no cap" : `${usdc(a.headroom)} headroom`}
+          </span>
+        </div>
+      ))}
+      {preview.idleAfterRebalance > 0n && (
+        <div className="text-amber-400">{usdc(preview.idleAfterRebalance)} will stay idle until caps are raised.</div>
+      )}
+      {preview.blockers.map((b) => <div key={b} className="text-red-400">{b}</div>)}
+    </div>
+  );
+}
+
+function ClaimCard({ status, onClaim, onClaimAll, disabledReason }: {
+  status: ClaimView | null;
+  onClaim: () => Promise<void>;
+  onClaimAll: (onProgress: (p: ClaimProgress) => void) => Promise<void>;
+  disabledReason?: string;
+}) {
   const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const disabled = !!disabledReason || busy;
+  const many = !!status && status.claimsNeeded > 1;
+  const run = async (send: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try { await send(); } catch (e) { setError(errorMessage(e)); } finally { setBusy(false); setProgress(null); }
+  };
   return (
     <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
       <div className="mb-3 flex items-center justify-between">
@@ -247,45 +409,146 @@ function ClaimCard({ claimable, onClaim, disabledReason }: { claimable: string;
         <span className="text-xs text-neutral-400">Weekly/Monthly</span>
       </div>
       <div className="flex items-end justify-between">
-        <div className="text-3xl font-medium">{claimable}</div>
+        <div className="text-3xl font-medium">{status?.total ?? "0.00"}</div>
         <button
-          onClick={async () => { setBusy(true); try { await onClaim(); } finally { setBusy(false); } }}
+          onClick={() => run(onClaim)}
           disabled={disabled}
           className={`rounded-xl px-4 py-2 text-sm font-medium transition ${
             disabled ? "bg-white/10 text-neutral-500" : "bg-white/90 text-neutral-900 hover:bg-white"
           }`}
           title={disabledReason}
         >
-          {busy ? "Claiming…" : disabledReason ?? "Claim"}
+          {busy ? progress ?? "Claiming…" : disabledReason ?? "Claim"}
         </button>
       </div>
+      {many && (
+        <div className="mt-3 flex items-center justify-between gap-3 text-xs text-neutral-400">
+          <span>
+            {status.unclaimedEpochs} unclaimed epochs need {status.claimsNeeded} claims ({status.maxEpochsPerClaim} epochs each); the next one pays {status.nextClaim}.
+          </span>
+          <button
+            onClick={() => run(async () => {
+              setProgress(`Claim 1/${status.claimsNeeded}…`);
+              await onClaimAll((p) => setProgress(p.done < p.total ? `Claim ${p.done + 1}/${p.total}…` : "Refreshing…"));
+            })}
+            disabled={disabled}
+            className={`shrink-0 rounded-xl px-3 py-1.5 font-medium transition ${
+              disabled ? "bg-white/10 text-neutral-500" : "bg-white/90 text-neutral-900 hover:bg-white"
+            }`}
+          >
+            Claim all ({status.claimsNeeded} txs)
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
     </div>
   );
 }
 
-function AutoCompoundCard({ on, toggle, disabledReason }: { on: boolean; toggle: () => Promise<void>; disabledReason?: string }) {
+function AutoCompoundCard({ on, preview, history, toggle, disabledReason }: {
+  on: boolean;
+  preview: CompoundPreviewView | null;
+  history: CompoundEventView[];
+  toggle: () => Promise<void>;
+  disabledReason?: string;
+}) {
   const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // A few checkpoints across the horizon rather than every epoch.
+  const checkpoints = preview ? preview.rows.filter((r, i) => (i + 1) % 4 === 0 || i === preview.rows.length - 1) : [];
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-lg font-medium">Auto-Compound</div>
+          <div className="text-sm text-neutral-400">Automatically re-invest your USDC distributions into new PerpBond shares.</div>
+          {error && <div className="mt-1 text-xs text-red-400">{error}</div>}
+        </div>
+        <button
+          onClick={async () => {
+            setBusy(true);
+            setError(null);
+            try { await toggle(); } catch (e) { setError(errorMessage(e)); } finally { setBusy(false); }
+          }}
+          disabled={!!disabledReason}
+          className={`rounded-xl px-4 py-2 text-sm border border-white/10 ${
+            on ? "bg-emerald-500/20 text-emerald-300" : "bg-white/5 text-neutral-200"
+          } disabled:opacity-50`}
+          title={disabledReason}
+        >
+          {busy ? "…" : on ? "On" : "Off"}
+        </button>
+      </div>
+
+      {preview && preview.sampleEpochs > 0 && checkpoints.length > 0 && (
+        <div className="text-sm">
+          <div className="mb-1 text-xs text-neutral-400">
+            Projection if the last {preview.sampleEpochs} epochs repeat ({formatPct(preview.apy)} APY)
+          </div>
+          <table className="w-full">
+            <thead className="text-neutral-400 text-xs">
+              <tr className="text-left">
+                <th className="py-1">After</th>
+                <th className="py-1">Paid out</th>
+                <th className="py-1">Compounded</th>
+                <th className="py-1">Shares (compounded)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {checkpoints.map((r) => (
+                <tr key={r.epoch}>
+                  <td className="py-1">{r.epoch} epochs</td>
+                  <td className="py-1">${r.simpleYield}</td>
+                  <td className="py-1">${r.compoundedYield}</td>
+                  <td className="py-1">{r.compoundedShares} <span className="text-neutral-500">vs {r.simpleShares}</span></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="text-sm">
+          <div className="mb-1 text-xs text-neutral-400">Compounded for you</div>
+          <ul className="divide-y divide-white/10">
+            {history.slice(-5).reverse().map((e) => (
+              <li key={e.hash} className="flex justify-between py-1">
+                <span className="text-neutral-400">{e.date}</span>
+                <span>${e.usdc} → {e.shares} shares</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PositionCard({ position }: { position: PositionView }) {
+  const cells: [string, string][] = [
+    ["Shares", position.shares],
+    ["Value", `$${position.value}`],
+    ["Deposited", `$${position.deposited}`],
+    ["Claimed", `$${position.claimed}`],
+    ["Auto-compounded", `$${position.compounded}`],
+  ];
   return (
-    <div className="rounded-2xl border border-white/10 bg-white/5 p-5 flex items-center justify-between">
-      <div>
-        <div className="text-lg font-medium">Auto-Compound</div>
-        <div className="text-sm text-neutral-400">Automatically re-invest your USDC distributions into new PerpBond shares.</div>
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <h3 className="mb-3 text-lg font-medium">Your Position</h3>
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+        {cells.map(([label, value]) => (
+          <div key={label}>
+            <div className="text-xs text-neutral-400">{label}</div>
+            <div className="mt-1 text-lg">{value}</div>
+          </div>
+        ))}
       </div>
-      <button
-        onClick={async () => { setBusy(true); try { await toggle(); } finally { setBusy(false); } }}
-        disabled={!!disabledReason}
-        className={`rounded-xl px-4 py-2 text-sm border border-white/10 ${
-          on ? "bg-emerald-500/20 text-emerald-300" : "bg-white/5 text-neutral-200"
-        } disabled:opacity-50`}
-        title={disabledReason}
-      >
-        {busy ? "…" : on ? "On" : "Off"}
-      </button>
     </div>
   );
 }
 
-function AllocationCard({ allocations }: { allocations: { name: string; bps: number }[] }) {
+function AllocationCard({ allocations }: { allocations: Allocation[] }) {
   const totalBps = useMemo(() => allocations.reduce((a, b) => a + b.bps, 0), [allocations]);
   return (
     <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
@@ -295,7 +558,7 @@ function AllocationCard({ allocations }: { allocations: { name: string; bps: num
       ) : (
         <div className="space-y-2">
           {allocations.map((a) => (
-            <div key={a.name} className="flex items-center gap-3">
+            <div key={a.adapter} className="flex items-center gap-3">
               <div className="w-40 text-sm text-neutral-300">{a.name}</div>
               <div className="flex-1 h-2 rounded-full bg-neutral-800 overflow-hidden">
                 <div className="h-2 bg-white/80" style={{ width: `${(a.bps / Math.max(totalBps, 1)) * 100}%` }} />
@@ -318,12 +581,15 @@ function AdaptersCard({ rows, loading }: { rows: AdapterRow[]; loading?: boolean
       ) : (
         <div className="divide-y divide-white/10">
           {rows.map((r) => (
-            <div key={r.name} className="grid grid-cols-2 md:grid-cols-5 gap-2 py-3 text-sm">
+            <div key={r.adapter} className="grid grid-cols-2 md:grid-cols-6 gap-2 py-3 text-sm">
               <div className="font-medium">{r.name}</div>
-              <div className="text-neutral-300">Cap: {formatUSD(r.cap)}</div>
+              <div className="text-neutral-300">Cap: {r.cap > 0 ? formatUSD(r.cap) : "None"}</div>
+              <div className="text-neutral-300">
+                Used: {r.utilisation === null ? "—" : formatPct(r.utilisation)} · max {formatPct(r.maxBpsOfVault / 10000)}
+              </div>
               <div className="text-neutral-300">Active: {r.active ? "Yes" : "No"}</div>
               <div className="text-neutral-300">TVL: {formatUSD(r.tvl)}</div>
-              <div className="text-neutral-300">APY: {formatPct(r.apy)}</div>
+              <div className="text-neutral-300">APY: {r.apy === null ? "n/a" : formatPct(r.apy)}</div>
             </div>
           ))}
         </div>
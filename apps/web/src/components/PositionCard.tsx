@@ -0,0 +1,26 @@
+"use client";
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { sdkGetPosition, type PositionView } from "@/lib/sdk";
+
+export default function PositionCard(){
+  const { address: acct } = useAccount();
+  const [pos,setPos]=useState<PositionView|null>(null);
+  useEffect(()=>{ setPos(null); if(acct) sdkGetPosition(acct).then(setPos,()=>setPos(null)); },[acct]);
+  const rows: [string,string][] = pos ? [
+    ["Shares", pos.shares],
+    ["Value (USDC)", pos.value],
+    ["Deposited (USDC)", pos.deposited],
+    ["Claimed (USDC)", pos.claimed],
+    ["Auto-compounded (USDC)", pos.compounded],
+  ] : [];
+  return (
+    <div className="rounded-2xl bg-neutral-900 p-4 grid gap-2 max-w-md">
+      <h3 className="text-lg">Your position</h3>
+      {!acct && <div className="text-sm text-neutral-400">Connect wallet</div>}
+      {rows.map(([k,v])=>(
+        <div key={k} className="flex justify-between text-sm"><span className="text-neutral-400">{k}</span><span>{v}</span></div>
+      ))}
+    </div>
+  );
+}
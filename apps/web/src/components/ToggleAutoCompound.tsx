@@ -1,20 +1,37 @@
 "use client";
 import { useEffect, useState } from "react";
-import { getAutoCompound, setAutoCompound } from "@/lib/sdk";
+import { useAccount, useWalletClient } from "wagmi";
+import { errorMessage, sdkGetAutoCompound, sdkSetAutoCompoundWith } from "@/lib/sdk";
 
 export default function ToggleAutoCompound(){
+  const { address: acct } = useAccount();
+  const { data: wallet } = useWalletClient();
   const [on,setOn]=useState<boolean>(false);
-  useEffect(()=>{ getAutoCompound().then(setOn); },[]);
+  const [busy,setBusy]=useState(false);
+  const [error,setError]=useState<string|null>(null);
+  useEffect(()=>{
+    let cancelled=false;
+    setOn(false); setError(null);
+    if(acct) sdkGetAutoCompound(acct).then((v)=>{ if(!cancelled) setOn(v); }, (e)=>{ if(!cancelled) setError(errorMessage(e)); });
+    return ()=>{ cancelled=true; };
+  },[acct]);
+  const toggle=async()=>{
+    const n=!on;
+    setBusy(true); setError(null);
+    try{ await sdkSetAutoCompoundWith(wallet, n); setOn(n); } catch(e){ setError(errorMessage(e)); } finally{ setBusy(false); }
+  };
   return (
-    <div className="rounded-2xl bg-neutral-900 p-4 max-w-md flex items-center justify-between">
-      <div>
-        <div className="text-lg">Auto-compound</div>
-        <div className="text-neutral-400 text-sm">Re-invest USDC distributions automatically</div>
+    <div className="rounded-2xl bg-neutral-900 p-4 max-w-md grid gap-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-lg">Auto-compound</div>
+          <div className="text-neutral-400 text-sm">Re-invest USDC distributions automatically</div>
+        </div>
+        <button disabled={!acct||busy} onClick={toggle} className="rounded-xl bg-white/10 hover:bg-white/20 px-3 py-2">
+          {busy?'Saving…':on?'On':'Off'}
+        </button>
       </div>
-      <button onClick={async()=>{ const n=!on; await setAutoCompound(n); setOn(n);}} className="rounded-xl bg-white/10 hover:bg-white/20 px-3 py-2">
-        {on?'On':'Off'}
-      </button>
+      {error && <p className="text-xs text-red-400">{error}</p>}
     </div>
   );
 }
-
@@ -0,0 +1,214 @@
+// Web adapter over @perp-bond/sdk: reads use wagmi's public client for the
+// current chain, writes use the connected wallet client passed in by the caller.
+import { formatUnits, type Address, type PublicClient, type WalletClient } from "viem";
+import { getChainId, getPublicClient } from "wagmi/actions";
+import {
+  FEATURES, PerpBondClient, addresses, hasFeature,
+  type AdapterRow, type Feature, type ClaimProgress, type DepositMode, type DepositPreview, type EpochRow, type Overview,
+} from "@perp-bond/sdk";
+import { wagmiConfig } from "@/lib/wagmi";
+
+export type { AdapterRow, ClaimProgress, DepositMode, DepositPreview, EpochRow, Feature, Overview };
+
+export const depositModeLabel: Record<Exclude<DepositMode, "auto">, string> = {
+  batch: "Approve + deposit in one batch",
+  permit: "Permit signature + permit tx, then deposit",
+  exact: "Exact approval, then deposit",
+  infinite: "Unlimited approval, then deposit",
+};
+
+/* ---------- Client resolution ---------- */
+
+function publicClientFor(chainId: number): PublicClient | undefined {
+  const chain = wagmiConfig.chains.find((c) => c.id === chainId);
+  if (!chain || !addresses[chainId]) return undefined;
+  // Base's OP-stack formatters widen the block/tx types beyond the generic PublicClient.
+  return getPublicClient(wagmiConfig, { chainId: chain.id }) as PublicClient | undefined;
+}
+
+// One client per chain so every component shares the same batched read cache.
+const clients = new Map<number, PerpBondClient>();
+
+function clientFor(chainId: number): PerpBondClient | null {
+  const cached = clients.get(chainId);
+  if (cached) return cached;
+  const pub = publicClientFor(chainId);
+  if (!pub) return null;
+  const client = new PerpBondClient({ publicClient: pub, chainId });
+  clients.set(chainId, client);
+  return client;
+}
+
+/** Null when the current chain has no deployment, or lacks the contracts `feature` needs. */
+function readClient(feature?: Feature): PerpBondClient | null {
+  const chainId = getChainId(wagmiConfig);
+  if (feature && !hasFeature(chainId, feature)) return null;
+  return clientFor(chainId);
+}
+
+/** Which UI features `chainId`'s deployment supports; all false when it has none. */
+export function sdkFeatures(chainId: number): Record<Feature, boolean> {
+  return Object.fromEntries(
+    (Object.keys(FEATURES) as Feature[]).map((f) => [f, hasFeature(chainId, f)]),
+  ) as Record<Feature, boolean>;
+}
+
+function writeClient(wallet: WalletClient | undefined): PerpBondClient {
+  if (!wallet?.account) throw new Error("Connect wallet");
+  const chainId = wallet.chain?.id ?? getChainId(wagmiConfig);
+  const client = clientFor(chainId);
+  if (!client) throw new Error(`Unsupported chain ${chainId}`);
+  return client.withWallet(wallet);
+}
+
+function formatUsdc(raw: bigint) {
+  return Number(formatUnits(raw, 6)).toFixed(2);
+}
+
+function formatShares(raw: bigint) {
+  return Number(formatUnits(raw, 18)).toFixed(4);
+}
+
+/* ---------- Reads ---------- */
+
+export async function sdkGetOverview(): Promise<Overview> {
+  const c = readClient();
+  if (!c) return { tvl: 0, apy: 0, allocations: [] };
+  return c.getOverview();
+}
+
+export async function sdkGetAdapters(): Promise<AdapterRow[]> {
+  const c = readClient("adapters");
+  if (!c) return [];
+  return c.getAdapters();
+}
+
+export async function sdkGetEpochs(limit = 12): Promise<EpochRow[]> {
+  const c = readClient("epochs");
+  if (!c) return [];
+  return (await c.getEpochs({ limit })).rows;
+}
+
+/** Display-ready claim status: `total` spans every unclaimed epoch, `nextClaim` is one `claim()`. */
+export type ClaimView = { total: string; nextClaim: string; claimsNeeded: number; unclaimedEpochs: number; maxEpochsPerClaim: number };
+
+export async function sdkGetClaimStatus(user: Address): Promise<ClaimView | null> {
+  const c = readClient("claim");
+  if (!c) return null;
+  const s = await c.getClaimStatus(user);
+  return {
+    total: formatUsdc(s.total),
+    nextClaim: formatUsdc(s.nextClaim),
+    claimsNeeded: s.claimsNeeded,
+    unclaimedEpochs: s.unclaimedEpochs,
+    maxEpochsPerClaim: s.maxEpochsPerClaim,
+  };
+}
+
+export async function sdkGetAutoCompound(user: Address): Promise<boolean> {
+  const c = readClient("autoCompound");
+  if (!c) return false;
+  return c.getAutoCompound(user);
+}
+
+export async function sdkGetUsdcBalance(user: Address): Promise<string> {
+  const c = readClient();
+  if (!c) return "0.00";
+  return formatUsdc(await c.getUsdcBalance(user));
+}
+
+export async function sdkPreviewDeposit(amount: string, user?: Address): Promise<DepositPreview | null> {
+  const c = readClient();
+  if (!c) return null;
+  return c.previewDeposit(amount, user);
+}
+
+/** Display-ready position: USDC amounts to 2dp, shares to 4dp. */
+export type PositionView = { shares: string; value: string; deposited: string; claimed: string; compounded: string };
+
+export async function sdkGetPosition(user: Address): Promise<PositionView | null> {
+  const c = readClient();
+  if (!c) return null;
+  const p = await c.getPosition(user);
+  return {
+    shares: formatShares(p.shares),
+    value: formatUsdc(p.value),
+    deposited: formatUsdc(p.deposited),
+    claimed: formatUsdc(p.claimed),
+    compounded: formatUsdc(p.compounded),
+  };
+}
+
+/** Display-ready auto-compound projection: USDC to 2dp, shares to 4dp; yields are cumulative. */
+export type CompoundPreviewView = {
+  apy: number;
+  sampleEpochs: number;
+  rows: { epoch: number; simpleYield: string; compoundedYield: string; simpleShares: string; compoundedShares: string }[];
+};
+
+export async function sdkGetCompoundPreview(user: Address, epochs?: number): Promise<CompoundPreviewView | null> {
+  const c = readClient("autoCompound");
+  if (!c) return null;
+  const p = await c.projectAutoCompound(user, epochs);
+  return {
+    apy: p.apy,
+    sampleEpochs: p.sampleEpochs,
+    rows: p.rows.map((r) => ({
+      epoch: r.epoch,
+      simpleYield: formatUsdc(r.simple.yieldUsdc),
+      compoundedYield: formatUsdc(r.compounded.yieldUsdc),
+      simpleShares: formatShares(r.simple.shares),
+      compoundedShares: formatShares(r.compounded.shares),
+    })),
+  };
+}
+
+export type CompoundEventView = { hash: string; date: string; usdc: string; shares: string };
+
+export async function sdkGetCompoundHistory(user: Address): Promise<CompoundEventView[]> {
+  const c = readClient("autoCompound");
+  if (!c) return [];
+  return (await c.getCompoundHistory(user)).map((e) => ({
+    hash: e.hash,
+    date: new Date(e.timestamp * 1000).toISOString().slice(0, 10),
+    usdc: formatUsdc(e.usdc),
+    shares: formatShares(e.shares),
+  }));
+}
+
+/** Approval mode the connected wallet will use for deposits (null until connected). */
+export async function sdkGetDepositMode(wallet: WalletClient | undefined): Promise<Exclude<DepositMode, "auto"> | null> {
+  if (!wallet?.account) return null;
+  return writeClient(wallet).getDepositMode();
+}
+
+/* ---------- Writes ---------- */
+
+/** Message to show for a failed read or write. */
+export function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+// Writes wait for confirmation and throw PerpBondError with a readable message on revert.
+export async function sdkDepositUSDCWith(
+  wallet: WalletClient | undefined,
+  user: Address | undefined,
+  amount: string,
+  mode: DepositMode = "auto",
+) {
+  if (!user) throw new Error("Connect wallet");
+  return writeClient(wallet).depositUSDC(amount, { receiver: user, mode });
+}
+
+export async function sdkClaimUSDCWith(wallet: WalletClient | undefined) {
+  return writeClient(wallet).claimUSDC();
+}
+
+/** Every claim needed to collect all unclaimed epochs, sent in sequence. */
+export async function sdkClaimAllWith(wallet: WalletClient | undefined, onProgress?: (p: ClaimProgress) => void) {
+  return writeClient(wallet).claimAll({ onProgress });
+}
+
+export async function sdkSetAutoCompoundWith(wallet: WalletClient | undefined, on: boolean) {
+  return writeClient(wallet).setAutoCompound(on);
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { ReactNode, useState } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { WagmiProvider, createConfig, http, type Transport } from "wagmi";
+import { base, baseSepolia } from "wagmi/chains";
+import { injected, walletConnect } from "@wagmi/connectors";
+import type { Chain } from "viem";
+import { deployedChains, registerDeployment } from "@perp-bond/sdk";
+
+const wcProjectId = process.env.NEXT_PUBLIC_WC_PROJECT_ID;
+
+// A deployment without a bundled manifest (e.g. a local anvil fork): its manifest JSON and RPC come from env.
+const customManifest = process.env.NEXT_PUBLIC_DEPLOYMENT_MANIFEST;
+const custom = customManifest
+  ? registerDeployment(JSON.parse(customManifest), undefined, "NEXT_PUBLIC_DEPLOYMENT_MANIFEST")
+  : undefined;
+const extraChains = deployedChains().filter((c) => c.id !== base.id && c.id !== baseSepolia.id);
+
+// Base Sepolia first: it is the default chain until mainnet addresses are filled in.
+export const wagmiConfig = createConfig({
+  chains: [baseSepolia, base, ...extraChains] as [Chain, ...Chain[]],
+  connectors: [
+    injected(),
+    ...(wcProjectId ? [walletConnect({ projectId: wcProjectId, showQrModal: true })] : []),
+  ],
+  transports: {
+    [baseSepolia.id]: http(process.env.NEXT_PUBLIC_RPC_BASE_SEPOLIA),
+    [base.id]: http(process.env.NEXT_PUBLIC_RPC_BASE),
+    ...Object.fromEntries(extraChains.map((c): [number, Transport] => [
+      c.id,
+      http(c.id === custom?.chainId ? process.env.NEXT_PUBLIC_DEPLOYMENT_RPC : undefined),
+    ])),
+  },
+  ssr: true,
+});
+
+export function Web3Providers({ children }: { children: ReactNode }) {
+  const [queryClient] = useState(() => new QueryClient());
+  return (
+    <WagmiProvider config={wagmiConfig}>
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    </WagmiProvider>
+  );
+}
@@ -1,26 +1,120 @@
 // tasks/perpbond.ts
-import { task } from "hardhat/config";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { task, types } from "hardhat/config";
 import { ethers } from "hardhat";
+import type { BaseContract } from "ethers";
+import { createPublicClient, custom, formatUnits, getAddress, type Address, type PublicClient } from "viem";
+import type { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  auditClaims, auditRoles, buildVoteIntents, checkFeeds, decodePath, encodePath, formatPath, formatRoleIssue, inactiveVoteAdapters, minOutMatrix, pathHops,
+  planAllocation, planGovernorHandover, readAllocationState, readRoles, routeTokens, slippagePairs, suggestTargets,
+  type RoleTarget, type RoutePath, type VotePlan,
+} from "@perp-bond/sdk";
 
 // --- helpers ---
 function parseCsv<T extends string | number>(csv: string, map: (s: string) => T): T[] {
   return csv.split(",").map((s) => map(s.trim()));
 }
-function encodePath(tokensCsv: string, feesCsv: string) {
-  const tokens = parseCsv(tokensCsv, (s) => ethers.getAddress(s));
-  const fees = parseCsv(feesCsv, (s) => Number(s));
-  if (tokens.length !== fees.length + 1) throw new Error("Path shape: tokens=N, fees=N-1");
-  let out = "0x";
-  for (let i = 0; i < fees.length; i++) {
-    out += tokens[i].slice(2);
-    out += ethers.zeroPadValue(ethers.toBeHex(fees[i], 3), 3).slice(2); // uint24
+function csvPath(tokensCsv: string, feesCsv: string) {
+  return encodePath(parseCsv(tokensCsv, (s) => ethers.getAddress(s)), parseCsv(feesCsv, (s) => Number(s)));
+}
+
+async function assertPools(hre: HardhatRuntimeEnvironment, factoryAddr: string, path: string) {
+  const factory = new hre.ethers.Contract(factoryAddr, ["function getPool(address,address,uint24) view returns (address)"], hre.ethers.provider);
+  for (const h of pathHops(decodePath(path as `0x${string}`))) {
+    const pool: string = await factory.getPool(h.tokenIn, h.tokenOut, h.fee);
+    if (pool === hre.ethers.ZeroAddress) throw new Error(`no V3 pool for ${h.tokenIn}/${h.tokenOut} fee ${h.fee}`);
+  }
+}
+
+// --- write modes: send (default), --dry-run, --safe-batch <file> ---
+type WriteMode = { dryRun?: boolean; safeBatch?: string };
+
+type SafeBatch = {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: { name: string; description: string; txBuilderVersion: string; createdFromSafeAddress: string; createdFromOwnerAddress: string };
+  transactions: { to: string; value: string; data: string; contractMethod: null; contractInputsValues: null }[];
+};
+
+// Every setter in these tasks goes through `call`: sent by signer 0, printed
+// decoded (--dry-run), or queued into a Safe Transaction Builder file (--safe-batch)
+// that the governor multisig can import. `done` writes the batch / prints the summary.
+function writer(hre: HardhatRuntimeEnvironment, mode: WriteMode, name: string) {
+  const queued: SafeBatch["transactions"] = [];
+  const live = !mode.dryRun && !mode.safeBatch;
+
+  return {
+    live,
+    async call(contract: BaseContract, method: string, args: unknown[]) {
+      const to = await contract.getAddress();
+      const data = contract.interface.encodeFunctionData(method, args);
+
+      if (live) {
+        try {
+          return await (await contract.getFunction(method)(...args)).wait();
+        } catch (e) {
+          const name = revertName(e);
+          throw name ? new Error(`${method} reverted: ${name}`, { cause: e }) : e;
+        }
+      }
+      const fn = contract.interface.getFunction(method)!;
+      const decoded = fn.inputs.map((p, i) => `    ${p.name || `arg${i}`} (${p.type}): ${formatArg(args[i])}`);
+      console.log(`${mode.safeBatch ? "[safe-batch]" : "[dry-run]"} ${to} ${fn.format("sighash")}\n${decoded.join("\n")}\n    data: ${data}`);
+      queued.push({ to, value: "0", data, contractMethod: null, contractInputsValues: null });
+      return null;
+    },
+    async done(message: string) {
+      if (live) {
+        console.log(message);
+        return;
+      }
+      if (!mode.safeBatch) {
+        console.log(`dry run: ${queued.length} call(s), nothing sent`);
+        return;
+      }
+      const chainId = String((await hre.ethers.provider.getNetwork()).chainId);
+      // Append so several tasks can build up one batch for a single signing round.
+      const batch: SafeBatch = existsSync(mode.safeBatch)
+        ? JSON.parse(readFileSync(mode.safeBatch, "utf8"))
+        : {
+            version: "1.0",
+            chainId,
+            createdAt: Date.now(),
+            meta: { name, description: "", txBuilderVersion: "1.16.5", createdFromSafeAddress: "", createdFromOwnerAddress: "" },
+            transactions: [],
+          };
+      if (batch.chainId !== chainId) throw new Error(`${mode.safeBatch} is for chain ${batch.chainId}, connected to ${chainId}`);
+      batch.transactions.push(...queued);
+      writeFileSync(mode.safeBatch, JSON.stringify(batch, null, 2));
+      console.log(`wrote ${queued.length} call(s) to ${mode.safeBatch} (${batch.transactions.length} total)`);
+    },
+  };
+}
+
+// The --dry-run / --safe-batch flags every write task takes; `writer` reads them back as its WriteMode.
+function withWriteMode(t: ConfigurableTaskDefinition) {
+  return t
+    .addFlag("dryRun", "print decoded calldata instead of sending")
+    .addOptionalParam("safeBatch", "write a Safe Transaction Builder JSON to this file instead of sending", undefined, types.string);
+}
+
+// Custom error name when ethers could decode the revert against the contract ABI.
+function revertName(e: unknown): string | undefined {
+  return (e as { revert?: { name?: string } } | null)?.revert?.name;
+}
+
+function formatArg(v: unknown): string {
+  if (typeof v === "bigint") return v.toString();
+  if (Array.isArray(v) || (v && typeof v === "object")) {
+    return JSON.stringify(v, (_k, x) => (typeof x === "bigint" ? x.toString() : x));
   }
-  out += tokens[tokens.length - 1].slice(2);
-  return out;
+  return String(v);
 }
 
 // perpbond:set-routes
-task("perpbond:set-routes", "Set adapter router/guard and deposit/exit routes")
+withWriteMode(task("perpbond:set-routes", "Set adapter router/guard and deposit/exit routes"))
   .addParam("adapter")
   .addOptionalParam("router")
   .addOptionalParam("guard")
@@ -30,35 +124,44 @@ task("perpbond:set-routes", "Set adapter router/guard and deposit/exit routes")
   .addOptionalParam("exitTokens", "CSV: tokenA,tokenB,...")
   .addOptionalParam("exitFees", "CSV: feeAB,feeBC,...")
   .addOptionalParam("exitFee", "uint24 single pool")
+  .addOptionalParam("factory", "Uniswap V3 factory; refuse paths with a missing pool")
   .setAction(async (args, hre) => {
     const [signer] = await hre.ethers.getSigners();
     const adapter = await hre.ethers.getContractAt("AerodromeVeAdapter", args.adapter, signer);
+    const w = writer(hre, args, "perpbond:set-routes");
 
-    if (args.router) await (await adapter.setRouter(args.router)).wait();
-    if (args.guard) await (await adapter.setGuard(args.guard)).wait();
+    if (args.factory) {
+      for (const path of [args.depositTokens && args.depositFees && csvPath(args.depositTokens, args.depositFees),
+                          args.exitTokens && args.exitFees && csvPath(args.exitTokens, args.exitFees)]) {
+        if (path) await assertPools(hre, args.factory, path);
+      }
+    }
+
+    if (args.router) await w.call(adapter, "setRouter", [args.router]);
+    if (args.guard) await w.call(adapter, "setGuard", [args.guard]);
 
     if (args.depositTokens && args.depositFees) {
-      const path = encodePath(args.depositTokens, args.depositFees);
-      await (await adapter.setDepositRoute(path, 0)).wait();
-      console.log("deposit path set");
+      const path = csvPath(args.depositTokens, args.depositFees);
+      await w.call(adapter, "setDepositRoute", [path, 0]);
+      if (w.live) console.log("deposit path set");
     } else if (args.depositFee) {
-      await (await adapter.setDepositRoute("0x", Number(args.depositFee))).wait();
-      console.log("deposit single-pool fee set");
+      await w.call(adapter, "setDepositRoute", ["0x", Number(args.depositFee)]);
+      if (w.live) console.log("deposit single-pool fee set");
     }
 
     if (args.exitTokens && args.exitFees) {
-      const path = encodePath(args.exitTokens, args.exitFees);
-      await (await adapter.setExitRoute(path, 0)).wait();
-      console.log("exit path set");
+      const path = csvPath(args.exitTokens, args.exitFees);
+      await w.call(adapter, "setExitRoute", [path, 0]);
+      if (w.live) console.log("exit path set");
     } else if (args.exitFee) {
-      await (await adapter.setExitRoute("0x", Number(args.exitFee))).wait();
-      console.log("exit single-pool fee set");
+      await w.call(adapter, "setExitRoute", ["0x", Number(args.exitFee)]);
+      if (w.live) console.log("exit single-pool fee set");
     }
-    console.log("done.");
+    await w.done("done.");
   });
 
 // perpbond:set-feeds
-task("perpbond:set-feeds", "Set Chainlink feeds in RouterGuard")
+withWriteMode(task("perpbond:set-feeds", "Set Chainlink feeds in RouterGuard"))
   .addParam("guard")
   .addParam("token")
   .addParam("aggregator")
@@ -67,12 +170,13 @@ task("perpbond:set-feeds", "Set Chainlink feeds in RouterGuard")
   .setAction(async (a, hre) => {
     const [signer] = await hre.ethers.getSigners();
     const guard = await hre.ethers.getContractAt("RouterGuard", a.guard, signer);
-    await (await guard.setFeed(a.token, a.aggregator, Number(a.staleAfter), Number(a.tokenDecimals))).wait();
-    console.log("feed set");
+    const w = writer(hre, a, "perpbond:set-feeds");
+    await w.call(guard, "setFeed", [a.token, a.aggregator, Number(a.staleAfter), Number(a.tokenDecimals)]);
+    await w.done("feed set");
   });
 
 // perpbond:set-slippage
-task("perpbond:set-slippage", "Whitelist router + set slippage for tokenIn->tokenOut")
+withWriteMode(task("perpbond:set-slippage", "Whitelist router + set slippage for tokenIn->tokenOut"))
   .addParam("guard")
   .addParam("router")
   .addParam("allow", "true|false")
@@ -82,13 +186,14 @@ task("perpbond:set-slippage", "Whitelist router + set slippage for tokenIn->toke
   .setAction(async (a, hre) => {
     const [signer] = await hre.ethers.getSigners();
     const guard = await hre.ethers.getContractAt("RouterGuard", a.guard, signer);
-    await (await guard.setRouterAllowed(a.router, a.allow === "true")).wait();
-    await (await guard.setMaxSlippageBps(a.tokenIn, a.tokenOut, Number(a.bps))).wait();
-    console.log("router + slippage updated");
+    const w = writer(hre, a, "perpbond:set-slippage");
+    await w.call(guard, "setRouterAllowed", [a.router, a.allow === "true"]);
+    await w.call(guard, "setMaxSlippageBps", [a.tokenIn, a.tokenOut, Number(a.bps)]);
+    await w.done("router + slippage updated");
   });
 
 // perpbond:register-adapter
-task("perpbond:register-adapter", "Register or update adapter in AdapterRegistry")
+withWriteMode(task("perpbond:register-adapter", "Register or update adapter in AdapterRegistry"))
   .addParam("registry")
   .addParam("adapter")
   .addOptionalParam("active", "true|false", "true")
@@ -109,35 +214,108 @@ task("perpbond:register-adapter", "Register or update adapter in AdapterRegistry
       oracleConfig: a.oracleConfig as `0x${string}`,
     };
 
-    try {
-      await (await reg.updateAdapter(info)).wait();
-      console.log("adapter updated");
-    } catch {
-      await (await reg.registerAdapter(info)).wait();
-      console.log("adapter registered");
+    // Decide from registry state instead of a failed send; only "not registered" means register.
+    const read = async (): Promise<typeof info | null> => {
+      try {
+        const cur = await reg.getAdapter(info.adapter);
+        return {
+          active: cur.active,
+          adapter: cur.adapter,
+          tvlCapUSDC: BigInt(cur.tvlCapUSDC),
+          maxBpsOfVault: Number(cur.maxBpsOfVault),
+          maxSlippageBpsOnSwap: Number(cur.maxSlippageBpsOnSwap),
+          oracleConfig: cur.oracleConfig,
+        };
+      } catch (e) {
+        if (revertName(e) !== "AdapterNotRegistered") throw e;
+        return null;
+      }
+    };
+    const before = await read();
+
+    const fields = ["active", "tvlCapUSDC", "maxBpsOfVault", "maxSlippageBpsOnSwap", "oracleConfig"] as const;
+    const show = (v: unknown) => (typeof v === "string" ? v.toLowerCase() : String(v));
+    const diff = (after: typeof info | null) => {
+      const changed = fields.filter((f) => show(before?.[f] ?? "—") !== show(after?.[f] ?? "—"));
+      console.table(Object.fromEntries(fields.map((f) => [f, {
+        before: before ? show(before[f]) : "—",
+        after: after ? show(after[f]) : "—",
+        changed: changed.includes(f) ? "*" : "",
+      }])));
+      return changed;
+    };
+
+    // Planned change first, new registrations included; a live send prints the registry as read back after the receipt.
+    const changed = diff(info);
+    if (before && !changed.length) {
+      console.log("adapter already up to date; nothing to send");
+      return;
     }
+
+    const w = writer(hre, a, "perpbond:register-adapter");
+    await w.call(reg, before ? "updateAdapter" : "registerAdapter", [info]);
+    await w.done(before ? "adapter updated" : "adapter registered");
+    if (!w.live) return;
+
+    const after = await read();
+    console.log("registry after receipt:");
+    diff(after);
+    const mismatched = fields.filter((f) => show(after?.[f] ?? "—") !== show(info[f]));
+    if (mismatched.length) throw new Error(`registry does not match the requested values after the receipt: ${mismatched.join(", ")}`);
   });
 
 // perpbond:set-alloc
-task("perpbond:set-alloc", "Set Vault target allocations (must sum to 10000)")
+withWriteMode(task("perpbond:set-alloc", "Plan and set Vault target allocations (must sum to 10000)"))
   .addParam("vault")
   .addParam("adapters", "CSV addresses")
-  .addParam("bps", "CSV bps")
+  .addOptionalParam("bps", "CSV bps")
+  .addOptionalParam("weights", "CSV relative weights (e.g. risk-adjusted APY) to derive bps from, capped by maxBpsOfVault")
+  .addFlag("force", "send even if the plan has warnings (errors always block)")
   .setAction(async (a, hre) => {
     const [signer] = await hre.ethers.getSigners();
     const vault = await hre.ethers.getContractAt("PerpBondVault", a.vault, signer);
+    if (!a.bps === !a.weights) throw new Error("pass exactly one of --bps or --weights");
+
+    const pub = createPublicClient({ transport: custom(hre.network.provider) }) as PublicClient;
+    const adapters = parseCsv(a.adapters, (s) => getAddress(s) as Address);
+    const state = await readAllocationState(pub, getAddress(a.vault), adapters);
+
+    let targets: Record<string, number>;
+    if (a.weights) {
+      const weights = parseCsv(a.weights, (s) => Number(s));
+      if (weights.length !== adapters.length) throw new Error("--weights must match --adapters");
+      const maxBps = Object.fromEntries(state.adapters.map((x) => [x.adapter, x.maxBpsOfVault]));
+      targets = suggestTargets(Object.fromEntries(adapters.map((ad, i) => [ad, weights[i]])), maxBps);
+    } else {
+      const bps = parseCsv(a.bps, (s) => Number(s));
+      if (bps.length !== adapters.length) throw new Error("--bps must match --adapters");
+      targets = Object.fromEntries(adapters.map((ad, i) => [ad, bps[i]]));
+    }
 
-    const adapters = parseCsv(a.adapters, ethers.getAddress);
-    const bps = parseCsv(a.bps, (s) => Number(s));
-    const sum = bps.reduce((x, y) => x + y, 0);
-    if (sum !== 10000) throw new Error(`bps must sum to 10000, got ${sum}`);
+    const plan = planAllocation(targets, state);
+    const usdc = (x: bigint) => (Number(x) / 1e6).toFixed(2);
+    console.log(`totalAssets ${usdc(state.totalAssets)} USDC, idle ${usdc(state.idleUsdc)} USDC`);
+    console.table(plan.rows.map((r) => ({
+      adapter: r.adapter,
+      bps: `${r.currentBps} → ${r.targetBps}`,
+      tvl: usdc(r.tvl),
+      nextRebalance: usdc(r.projectedDeploy),
+      clipped: usdc(r.clipped),
+    })));
+    console.log(`idle after next rebalance: ${usdc(plan.idleAfter)} USDC`);
+    for (const m of plan.warnings) console.warn(`warning: ${m}`);
+    for (const m of plan.errors) console.error(`error: ${m}`);
+    if (plan.errors.length) throw new Error("allocation plan has errors; nothing sent");
+    if (plan.warnings.length && !a.force) throw new Error("allocation plan has warnings; rerun with --force to send anyway");
 
-    await (await vault.setTargetAllocations(adapters, bps)).wait();
-    console.log("allocations set");
+    const order = Object.keys(targets).filter((k) => targets[k] > 0);
+    const w = writer(hre, a, "perpbond:set-alloc");
+    await w.call(vault, "setTargetAllocations", [order, order.map((k) => targets[k])]);
+    await w.done("allocations set");
   });
 
 // perpbond:wires
-task("perpbond:wires", "Wire Harvester<->Distributor and set fee bps")
+withWriteMode(task("perpbond:wires", "Wire Harvester<->Distributor and set fee bps"))
   .addParam("harvester")
   .addParam("distributor")
   .addOptionalParam("feeBps", "default 1000", "1000")
@@ -146,10 +324,11 @@ task("perpbond:wires", "Wire Harvester<->Distributor and set fee bps")
     const harvester = await hre.ethers.getContractAt("Harvester", a.harvester, signer);
     const distributor = await hre.ethers.getContractAt("Distributor", a.distributor, signer);
 
-    await (await harvester.setDistributor(a.distributor)).wait();
-    await (await distributor.setHarvester(a.harvester)).wait();
-    await (await distributor.setFeeBps(Number(a.feeBps))).wait();
-    console.log("wires/fees set");
+    const w = writer(hre, a, "perpbond:wires");
+    await w.call(harvester, "setDistributor", [a.distributor]);
+    await w.call(distributor, "setHarvester", [a.harvester]);
+    await w.call(distributor, "setFeeBps", [Number(a.feeBps)]);
+    await w.done("wires/fees set");
   });
 
 // perpbond:list
@@ -181,3 +360,294 @@ task("perpbond:quote-minout", "Quote oracle minOut via RouterGuard")
     console.log(`minOut: ${out.toString()}`);
   });
 
+
+// perpbond:show-routes
+task("perpbond:show-routes", "Print configured swap paths (adapter deposit/exit, swapper reward→USDC)")
+  .addOptionalParam("adapter", "AerodromeVeAdapter address")
+  .addOptionalParam("swapper", "UniV3RewardSwapper address")
+  .addOptionalParam("tokens", "CSV reward tokens to show for --swapper")
+  .addOptionalParam("factory", "Uniswap V3 factory; checks each hop's pool when set")
+  .setAction(async (a, hre) => {
+    if (!a.adapter && !a.swapper) throw new Error("pass --adapter and/or --swapper");
+    const provider = hre.ethers.provider;
+
+    const symbols = new Map<string, string>();
+    const label = (t: string) => symbols.get(t.toLowerCase()) ?? t;
+    const loadSymbols = async (route: RoutePath) => {
+      for (const t of route.tokens) {
+        if (symbols.has(t.toLowerCase())) continue;
+        const erc20 = new hre.ethers.Contract(t, ["function symbol() view returns (string)"], provider);
+        symbols.set(t.toLowerCase(), await erc20.symbol().catch(() => t));
+      }
+    };
+    const factory = a.factory
+      ? new hre.ethers.Contract(a.factory, ["function getPool(address,address,uint24) view returns (address)"], provider)
+      : undefined;
+
+    const show = async (title: string, path: string, fee: number, single: [string, string]) => {
+      // Empty path = single pool with `fee`.
+      const route: RoutePath = path === "0x"
+        ? { tokens: [hre.ethers.getAddress(single[0]), hre.ethers.getAddress(single[1])] as `0x${string}`[], fees: [fee] }
+        : decodePath(path as `0x${string}`);
+      if (path === "0x" && !fee) {
+        console.log(`${title}: not configured`);
+        return;
+      }
+      await loadSymbols(route);
+      console.log(`${title}: ${formatPath(route, label)}${path === "0x" ? " (single pool)" : ""}`);
+      if (!factory) return;
+      for (const h of pathHops(route)) {
+        const pool: string = await factory.getPool(h.tokenIn, h.tokenOut, h.fee);
+        const ok = pool !== hre.ethers.ZeroAddress;
+        console.log(`    ${label(h.tokenIn)}/${label(h.tokenOut)} ${h.fee}: ${ok ? pool : "NO POOL"}`);
+      }
+    };
+
+    if (a.adapter) {
+      const adapter = await hre.ethers.getContractAt("AerodromeVeAdapter", a.adapter);
+      const [usdc, aero] = [await adapter.usdc(), await adapter.aero()];
+      await show("deposit", await adapter.depositPath(), Number(await adapter.depositFee()), [usdc, aero]);
+      await show("exit", await adapter.exitPath(), Number(await adapter.exitFee()), [aero, usdc]);
+    }
+
+    if (a.swapper) {
+      if (!a.tokens) throw new Error("--swapper needs --tokens (CSV reward tokens)");
+      const swapper = await hre.ethers.getContractAt("UniV3RewardSwapper", a.swapper);
+      const usdc = await swapper.usdc();
+      for (const token of parseCsv(a.tokens, (s) => hre.ethers.getAddress(s))) {
+        const sym = await new hre.ethers.Contract(token, ["function symbol() view returns (string)"], provider).symbol().catch(() => token);
+        await show(`reward ${sym}`, await swapper.pathFor(token), Number(await swapper.feeFor(token)), [token, usdc]);
+      }
+    }
+  });
+
+// perpbond:vote
+withWriteMode(task("perpbond:vote", "Submit gauge votes from a plan file via VoterRouter.executeVotes"))
+  .addParam("router", "VoterRouter address")
+  .addParam("registry", "AdapterRegistry address")
+  .addParam("plan", "JSON file: { adapter: { gauge: weight | \"25%\" } }")
+  .setAction(async (a, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const router = await hre.ethers.getContractAt("VoterRouter", a.router, signer);
+    const reg = await hre.ethers.getContractAt("AdapterRegistry", a.registry, signer);
+
+    const intents = buildVoteIntents(JSON.parse(readFileSync(a.plan, "utf8")) as VotePlan);
+    const inactive = inactiveVoteAdapters(intents, await reg.getActiveAdapters());
+    if (inactive.length) throw new Error(`not active in registry: ${inactive.join(", ")}`);
+
+    for (const i of intents) {
+      console.log(i.adapter);
+      i.gauges.forEach((g, k) => console.log(`    ${g}  ${(Number(i.weights[k]) / 100).toFixed(2)}%`));
+    }
+
+    const w = writer(hre, a, "perpbond:vote");
+    const receipt = await w.call(router, "executeVotes", [intents]);
+    if (receipt) {
+      for (const log of receipt.logs) {
+        const ev = router.interface.parseLog(log);
+        if (ev?.name === "AdapterVoted") console.log(`voted: ${ev.args.adapter} (${ev.args.items} gauges)`);
+      }
+    }
+    await w.done(`${intents.length} adapter vote(s) executed`);
+  });
+
+// perpbond:check-feeds
+task("perpbond:check-feeds", "Check RouterGuard feeds for every token used in routes (staleness, decimals, missing)")
+  .addParam("guard", "RouterGuard address")
+  .addOptionalParam("adapters", "CSV adapter addresses whose deposit/exit routes to scan")
+  .addOptionalParam("swapper", "UniV3RewardSwapper address")
+  .addOptionalParam("rewardTokens", "CSV reward tokens whose swapper paths to scan")
+  .addOptionalParam("tokens", "CSV extra tokens to check")
+  .addFlag("json", "print the machine-readable report only")
+  .setAction(async (a, hre) => {
+    // viem over Hardhat's EIP-1193 provider so the SDK reads the same network.
+    const pub = createPublicClient({ transport: custom(hre.network.provider) }) as PublicClient;
+    const csv = (v?: string) => (v ? parseCsv(v, (s) => getAddress(s) as Address) : []);
+
+    const tokens = [...new Set([
+      ...(await routeTokens(pub, { adapters: csv(a.adapters), swapper: a.swapper, rewardTokens: csv(a.rewardTokens) })),
+      ...csv(a.tokens),
+    ])];
+    const report = await checkFeeds(pub, getAddress(a.guard), tokens);
+
+    if (a.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.table(report.feeds.map((f) => ({
+        token: f.symbol ?? f.token,
+        aggregator: f.aggregator ?? "—",
+        age: f.age === null ? "—" : `${f.age}s / ${f.staleAfter || "∞"}s`,
+        decimals: `${f.tokenDecimals ?? "?"} / cfg ${f.configuredDecimals ?? "—"}`,
+        issues: f.issues.join(", ") || "ok",
+      })));
+    }
+    // Non-zero exit for monitoring when anything is unhealthy.
+    if (!report.ok) process.exitCode = 1;
+  });
+
+// perpbond:slippage-matrix
+task("perpbond:slippage-matrix", "Guard min-out vs. QuoterV2 for every pair with maxSlippageBps set, across a ladder of trade sizes")
+  .addParam("guard", "RouterGuard address")
+  .addParam("quoter", "Uniswap V3 QuoterV2 address")
+  .addOptionalParam("sizes", "CSV trade sizes in USD", "100,1000,10000,100000")
+  .addOptionalParam("harvestUsd", "largest size considered a normal harvest swap", "10000")
+  .addOptionalParam("via", "CSV intermediate tokens to try for two-hop paths (e.g. WETH)")
+  .addParam("fromBlock", "first block to scan for MaxSlippageSet (the guard's deployment block)")
+  .addOptionalParam("csv", "write the matrix to this CSV file instead of printing a table")
+  .setAction(async (a, hre) => {
+    const pub = createPublicClient({ transport: custom(hre.network.provider) }) as PublicClient;
+    const guard = getAddress(a.guard);
+    const pairs = await slippagePairs(pub, guard, BigInt(a.fromBlock));
+    if (!pairs.length) return console.log("No pairs with maxSlippageBps set.");
+
+    const rows = await minOutMatrix(pub, {
+      guard,
+      quoter: getAddress(a.quoter),
+      pairs,
+      ladderUsd: parseCsv(a.sizes, (s) => Number(s)),
+      via: a.via ? parseCsv(a.via, (s) => getAddress(s) as Address) : [],
+    });
+    const harvestUsd = Number(a.harvestUsd);
+    // A rejected size within the normal harvest range means keeper swaps will revert.
+    const critical = rows.filter((r) => r.rejected && r.usd <= harvestUsd);
+
+    if (a.csv) {
+      const cols = ["tokenIn", "tokenOut", "symbolIn", "symbolOut", "bps", "usd", "amountIn", "guardMinOut", "quoterOut", "marginBps", "rejected", "path", "error"] as const;
+      const lines = rows.map((r) => cols.map((c) => String(r[c] ?? "")).join(","));
+      writeFileSync(a.csv, [cols.join(","), ...lines].join("\n") + "\n");
+      console.log(`Wrote ${rows.length} rows to ${a.csv}`);
+    } else {
+      console.table(rows.map((r) => ({
+        pair: `${r.symbolIn}→${r.symbolOut}`,
+        bps: r.bps,
+        usd: r.usd,
+        guardMinOut: r.guardMinOut ?? "—",
+        quoterOut: r.quoterOut ?? "—",
+        margin: r.marginBps === null ? "—" : `${r.marginBps} bps`,
+        path: r.path ? formatPath(decodePath(r.path)) : "—",
+        status: r.error ?? (!r.rejected ? "ok" : r.usd <= harvestUsd ? "REJECT (harvest size)" : "reject"),
+      })));
+    }
+    if (critical.length) {
+      console.log(`${critical.length} size(s) ≤ $${harvestUsd} would fail the guard floor — widen bps or fix routing.`);
+      process.exitCode = 1;
+    }
+  });
+
+// perpbond:roles
+withWriteMode(task("perpbond:roles", "Audit AccessRoles holders and pause state across contracts; optionally hand the governor role over"))
+  .addOptionalParam("contracts", "CSV label=address, e.g. vault=0x..,distributor=0x..")
+  .addOptionalParam("registry", "AdapterRegistry address; audits the registry and every listed adapter")
+  .addOptionalParam("governor", "expected governor (default: most common holder)")
+  .addOptionalParam("guardian", "expected guardian")
+  .addOptionalParam("keeper", "expected keeper")
+  .addOptionalParam("treasury", "expected treasury")
+  .addOptionalParam("handover", "new governor: queue transferGovernorship on every contract it doesn't govern yet")
+  .addFlag("accept", "with --handover: queue acceptGovernorship where the new governor is pending (run as the new governor)")
+  .addFlag("json", "print the machine-readable audit only")
+  .setAction(async (a, hre) => {
+    const pub = createPublicClient({ transport: custom(hre.network.provider) }) as PublicClient;
+    const targets: RoleTarget[] = a.contracts
+      ? parseCsv(a.contracts, (s) => s).map((entry) => {
+          const [label, addr] = entry.split("=");
+          if (!addr) throw new Error(`--contracts entry "${entry}" is not label=address`);
+          return { label: label.trim(), address: getAddress(addr.trim()) };
+        })
+      : [];
+    if (a.registry) {
+      const registry = getAddress(a.registry);
+      targets.push({ label: "registry", address: registry });
+      const reg = await hre.ethers.getContractAt("AdapterRegistry", registry);
+      for (const i of await reg.list()) targets.push({ label: `adapter ${String(i.adapter).slice(0, 10)}`, address: getAddress(i.adapter) });
+    }
+    if (!targets.length) throw new Error("pass --contracts and/or --registry");
+
+    const holders = await readRoles(pub, targets);
+    const expected = Object.fromEntries(
+      (["governor", "guardian", "keeper", "treasury"] as const).filter((r) => a[r]).map((r) => [r, getAddress(a[r])]),
+    );
+    const audit = auditRoles(holders, expected);
+
+    if (a.json) {
+      console.log(JSON.stringify(audit, null, 2));
+    } else {
+      console.table(holders.map((h) => ({
+        contract: h.label,
+        governor: h.governor ?? "—",
+        pending: h.pendingGovernor ?? "",
+        guardian: h.guardian ?? "—",
+        keeper: h.keeper ?? "—",
+        treasury: h.treasury ?? "—",
+        paused: h.paused ?? "?",
+      })));
+      for (const i of audit.issues) console.log(`! ${formatRoleIssue(i)}`);
+      if (audit.ok) console.log("roles consistent, nothing paused");
+    }
+
+    if (a.handover) {
+      const next = getAddress(a.handover);
+      const steps = planGovernorHandover(holders, next);
+      if (!a.json) {
+        console.table(steps.map((s) => ({ contract: s.label, address: s.address, action: s.action, replacesPending: s.replaces ?? "" })));
+      }
+      const phase = a.accept ? "accept" : "transfer";
+      const todo = steps.filter((s) => s.action === phase);
+      const [signer] = await hre.ethers.getSigners();
+      const w = writer(hre, a, `perpbond:roles ${phase}`);
+      for (const s of todo) {
+        const c = new hre.ethers.Contract(s.address, ["function transferGovernorship(address)", "function acceptGovernorship()"], signer);
+        if (phase === "accept") await w.call(c, "acceptGovernorship", []);
+        else await w.call(c, "transferGovernorship", [next]);
+      }
+      await w.done(phase === "accept"
+        ? `${next} accepted governorship on ${todo.length} contract(s)`
+        : `transfer to ${next} started on ${todo.length} contract(s); run again with --accept as the new governor`);
+    }
+    if (!audit.ok) process.exitCode = 1;
+  });
+
+// perpbond:claim-audit
+task("perpbond:claim-audit", "Compare Distributor claims (current balance) with per-epoch share snapshots rebuilt from receipt transfers")
+  .addParam("distributor", "Distributor address")
+  .addParam("fromBlock", "block at or before the receipt token's first mint (e.g. its deployment block)")
+  .addOptionalParam("minDelta", "hide holders whose |delta| is below this many USDC", "0")
+  .addOptionalParam("csv", "write the per-address report to this CSV file")
+  .addOptionalParam("snapshots", "write per-epoch balances to this CSV file (epoch,holder,shares)")
+  .setAction(async (a, hre) => {
+    const pub = createPublicClient({ transport: custom(hre.network.provider) }) as PublicClient;
+    const report = await auditClaims(pub, getAddress(a.distributor), BigInt(a.fromBlock));
+    const usdc = (v: bigint) => formatUnits(v, 6);
+    const minDelta = BigInt(Math.round(Number(a.minDelta) * 1e6));
+    const rows = report.holders.filter((h) => (h.deltaUsdc < 0n ? -h.deltaUsdc : h.deltaUsdc) >= minDelta);
+
+    // Incomplete transfer history makes every figure below wrong; say so first.
+    for (const s of report.snapshots) {
+      if (s.rebuiltShares !== s.totalShares) {
+        console.log(`! epoch ${s.epoch}: rebuilt ${formatUnits(s.rebuiltShares, 18)} shares, Distributor recorded ${formatUnits(s.totalShares, 18)} — check --from-block`);
+      }
+    }
+
+    if (a.csv) {
+      const cols = ["holder", "shares", "lastClaimedEpoch", "paidUsdc", "fairPaidUsdc", "claimableUsdc", "fairClaimableUsdc", "deltaUsdc", "epochsBeyondCap"] as const;
+      writeFileSync(a.csv, [cols.join(","), ...rows.map((r) => cols.map((c) => String(r[c])).join(","))].join("\n") + "\n");
+      console.log(`Wrote ${rows.length} holder(s) to ${a.csv}`);
+    } else {
+      console.table(rows.map((r) => ({
+        holder: r.holder,
+        shares: formatUnits(r.shares, 18),
+        lastClaimed: r.lastClaimedEpoch,
+        paid: usdc(r.paidUsdc),
+        fairPaid: usdc(r.fairPaidUsdc),
+        claimable: usdc(r.claimableUsdc),
+        fairClaimable: usdc(r.fairClaimableUsdc),
+        delta: usdc(r.deltaUsdc),
+        beyondCap: r.epochsBeyondCap || "",
+      })));
+    }
+    if (a.snapshots) {
+      const lines = report.snapshots.flatMap((s) => [...s.balances].map(([holder, shares]) => `${s.epoch},${holder},${shares}`));
+      writeFileSync(a.snapshots, ["epoch,holder,shares", ...lines].join("\n") + "\n");
+      console.log(`Wrote ${lines.length} snapshot row(s) to ${a.snapshots}`);
+    }
+    console.log(`${report.epochs} epoch(s), ${report.holders.length} holder(s): overpaid ${usdc(report.overpaidUsdc)} USDC, underpaid ${usdc(report.underpaidUsdc)} USDC`);
+  });
@@ -0,0 +1,189 @@
+import { ethers } from "hardhat";
+import type { Contract, Signer } from "ethers";
+import { encodePath } from "@perp-bond/sdk";
+import { tokenAddress, type AdapterConfig, type DeploymentConfig, type RouteConfig } from "./schema";
+
+/** One setter call needed to bring on-chain state in line with the config. */
+export type Change = {
+  contract: Contract;
+  target: string;   // contract label for output, e.g. "RouterGuard"
+  method: string;
+  args: unknown[];
+  current: string;  // on-chain value, as printed
+  desired: string;  // config value, as printed
+};
+
+/** AdapterRegistry.AdapterInfo as ethers decodes it (every uint comes back as a bigint). */
+type AdapterInfoStruct = {
+  active: boolean;
+  adapter: string;
+  tvlCapUSDC: bigint;
+  maxBpsOfVault: bigint;
+  maxSlippageBpsOnSwap: bigint;
+  oracleConfig: string;
+};
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Read current state and list only the setters whose values differ from `cfg`. */
+export async function planChanges(cfg: DeploymentConfig, signer: Signer): Promise<Change[]> {
+  const { chainId } = await signer.provider!.getNetwork();
+  if (Number(chainId) !== cfg.chainId) {
+    throw new Error(`config is for chain ${cfg.chainId} (${cfg.network}) but connected to ${chainId}`);
+  }
+
+  const registry    = await ethers.getContractAt("AdapterRegistry", cfg.contracts.registry, signer);
+  const vault       = await ethers.getContractAt("PerpBondVault", cfg.contracts.vault, signer);
+  const guard       = await ethers.getContractAt("RouterGuard", cfg.contracts.routerGuard, signer);
+  const harvester   = await ethers.getContractAt("Harvester", cfg.contracts.harvester, signer);
+  const distributor = await ethers.getContractAt("Distributor", cfg.contracts.distributor, signer);
+  const token = (ref: string) => tokenAddress(cfg, ref);
+
+  const changes: Change[] = [];
+  const push = (c: Change) => changes.push(c);
+
+  // 1) Guard
+  for (const { router, allowed } of cfg.guard.routers) {
+    const now: boolean = await guard.allowedRouters(router);
+    if (now !== allowed) {
+      push({ contract: guard, target: "RouterGuard", method: "setRouterAllowed", args: [router, allowed], current: `${router} ${now}`, desired: `${router} ${allowed}` });
+    }
+  }
+  for (const { tokenIn, tokenOut, bps } of cfg.guard.maxSlippage) {
+    const now = Number(await guard.maxSlippageBps(token(tokenIn), token(tokenOut)));
+    if (now !== bps) {
+      push({ contract: guard, target: "RouterGuard", method: "setMaxSlippageBps", args: [token(tokenIn), token(tokenOut), bps], current: `${tokenIn}→${tokenOut} ${now}bps`, desired: `${tokenIn}→${tokenOut} ${bps}bps` });
+    }
+  }
+  for (const f of cfg.guard.feeds) {
+    const [aggregator, staleAfter, tokenDecimals] = await guard.feedOf(token(f.token));
+    if (!same(aggregator, f.aggregator) || Number(staleAfter) !== f.staleAfter || Number(tokenDecimals) !== f.tokenDecimals) {
+      push({
+        contract: guard, target: "RouterGuard", method: "setFeed",
+        args: [token(f.token), f.aggregator, f.staleAfter, f.tokenDecimals],
+        current: `${f.token} ${aggregator} stale=${staleAfter} dec=${tokenDecimals}`,
+        desired: `${f.token} ${f.aggregator} stale=${f.staleAfter} dec=${f.tokenDecimals}`,
+      });
+    }
+  }
+
+  // 2) Registry (register or update)
+  const list: AdapterInfoStruct[] = await registry.list();
+  const registered = new Map(list.map((i) => [i.adapter.toLowerCase(), i]));
+  for (const a of cfg.adapters) {
+    const info = {
+      active: a.registry.active,
+      adapter: a.address,
+      tvlCapUSDC: BigInt(a.registry.tvlCapUSDC),
+      maxBpsOfVault: a.registry.maxBpsOfVault,
+      maxSlippageBpsOnSwap: a.registry.maxSlippageBpsOnSwap,
+      oracleConfig: a.registry.oracleConfig,
+    };
+    const now = registered.get(a.address.toLowerCase());
+    if (!now) {
+      push({ contract: registry, target: "AdapterRegistry", method: "registerAdapter", args: [info], current: `${a.name} not registered`, desired: `${a.name} ${describeInfo(info)}` });
+    } else if (describeInfo(now) !== describeInfo(info)) {
+      push({ contract: registry, target: "AdapterRegistry", method: "updateAdapter", args: [info], current: `${a.name} ${describeInfo(now)}`, desired: `${a.name} ${describeInfo(info)}` });
+    }
+  }
+
+  // 3) Vault allocation (one call replaces every active target)
+  const activeNow: string[] = await registry.getActiveAdapters();
+  const targets = cfg.adapters.filter((a) => a.registry.active && a.targetBps > 0);
+  const watched = new Set([...activeNow.map((x) => x.toLowerCase()), ...targets.map((a) => a.address.toLowerCase())]);
+  let allocDiffers = false;
+  const nowBps: string[] = [];
+  for (const addr of watched) {
+    const now = Number(await vault.targetAllocationBps(addr));
+    const want = targets.find((a) => same(a.address, addr))?.targetBps ?? 0;
+    if (now !== want) allocDiffers = true;
+    if (now) nowBps.push(`${addr}=${now}`);
+  }
+  if (allocDiffers && targets.length) {
+    push({
+      contract: vault, target: "PerpBondVault", method: "setTargetAllocations",
+      args: [targets.map((a) => a.address), targets.map((a) => a.targetBps)],
+      current: nowBps.join(", ") || "none",
+      desired: targets.map((a) => `${a.name}=${a.targetBps}`).join(", "),
+    });
+  }
+
+  // 4) Adapter routes + guard + router
+  for (const a of cfg.adapters) changes.push(...(await planAdapter(cfg, a, signer)));
+
+  // 5) Harvester ⇄ Distributor, fee
+  const hDist: string = await harvester.distributor();
+  if (!same(hDist, cfg.contracts.distributor)) {
+    push({ contract: harvester, target: "Harvester", method: "setDistributor", args: [cfg.contracts.distributor], current: hDist, desired: cfg.contracts.distributor });
+  }
+  const dHarv: string = await distributor.harvester();
+  if (!same(dHarv, cfg.contracts.harvester)) {
+    push({ contract: distributor, target: "Distributor", method: "setHarvester", args: [cfg.contracts.harvester], current: dHarv, desired: cfg.contracts.harvester });
+  }
+  const fee = Number(await distributor.feeBps());
+  if (fee !== cfg.distributor.feeBps) {
+    push({ contract: distributor, target: "Distributor", method: "setFeeBps", args: [cfg.distributor.feeBps], current: `${fee}bps`, desired: `${cfg.distributor.feeBps}bps` });
+  }
+
+  return changes;
+}
+
+async function planAdapter(cfg: DeploymentConfig, a: AdapterConfig, signer: Signer): Promise<Change[]> {
+  if (!a.router && !a.guard && !a.depositRoute && !a.exitRoute) return [];
+  const adapter = await ethers.getContractAt("AerodromeVeAdapter", a.address, signer);
+  const target = `Adapter(${a.name})`;
+  const changes: Change[] = [];
+
+  if (a.router) {
+    const now: string = await adapter.swapRouter();
+    if (!same(now, a.router)) changes.push({ contract: adapter, target, method: "setRouter", args: [a.router], current: now, desired: a.router });
+  }
+  const guardAddr = a.guard ?? cfg.contracts.routerGuard;
+  const nowGuard: string = await adapter.guard();
+  if (!same(nowGuard, guardAddr)) {
+    changes.push({ contract: adapter, target, method: "setGuard", args: [guardAddr], current: nowGuard, desired: guardAddr });
+  }
+
+  const routes: [RouteConfig | undefined, "depositPath" | "exitPath", "depositFee" | "exitFee", string][] = [
+    [a.depositRoute, "depositPath", "depositFee", "setDepositRoute"],
+    [a.exitRoute, "exitPath", "exitFee", "setExitRoute"],
+  ];
+  for (const [route, pathGetter, feeGetter, method] of routes) {
+    if (!route) continue;
+    const [path, fee] = "tokens" in route
+      ? [encodePath(route.tokens.map((t) => tokenAddress(cfg, t)), route.fees), 0]
+      : ["0x", route.fee];
+    const nowPath: string = await adapter[pathGetter]();
+    const nowFee = Number(await adapter[feeGetter]());
+    if (!same(nowPath, path) || nowFee !== fee) {
+      changes.push({ contract: adapter, target, method, args: [path, fee], current: `path=${nowPath} fee=${nowFee}`, desired: `path=${path} fee=${fee}` });
+    }
+  }
+  return changes;
+}
+
+function describeInfo(i: { active: boolean; tvlCapUSDC: bigint; maxBpsOfVault: number | bigint; maxSlippageBpsOnSwap: number | bigint; oracleConfig: string }) {
+  return `active=${i.active} cap=${i.tvlCapUSDC} maxBps=${i.maxBpsOfVault} slip=${i.maxSlippageBpsOnSwap} oracle=${i.oracleConfig.toLowerCase()}`;
+}
+
+export function printPlan(changes: Change[]) {
+  if (!changes.length) {
+    console.log("No changes: on-chain state matches config.");
+    return;
+  }
+  console.log(`${changes.length} change(s):`);
+  for (const [i, c] of changes.entries()) {
+    console.log(`${i + 1}. ${c.target}.${c.method}`);
+    console.log(`     - ${c.current}`);
+    console.log(`     + ${c.desired}`);
+  }
+}
+
+/** Send each change in order, waiting for each to mine. */
+export async function applyChanges(changes: Change[]) {
+  for (const [i, c] of changes.entries()) {
+    const tx = await c.contract[c.method](...c.args);
+    console.log(`${i + 1}/${changes.length} ${c.target}.${c.method} → ${tx.hash}`);
+    await tx.wait();
+  }
+}
@@ -0,0 +1,121 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "expected 0x-prefixed 20-byte address");
+const deployed = address.refine((a) => a !== ZERO, "not set (fill in the deployed address)");
+const bps = z.number().int().min(0).max(10_000);
+const uint24 = z.number().int().min(0).max(0xffffff);
+
+/** A token symbol from `tokens`, or a raw address. */
+const tokenRef = z.string();
+
+const route = z.union([
+  z.object({ tokens: z.array(tokenRef).min(2), fees: z.array(uint24).min(1) })
+    .refine((r) => r.tokens.length === r.fees.length + 1, "path shape: tokens=N, fees=N-1"),
+  z.object({ fee: uint24 }),
+]);
+
+const adapter = z.object({
+  name: z.string(),
+  address: deployed,
+  registry: z.object({
+    active: z.boolean().default(true),
+    tvlCapUSDC: z.string().regex(/^\d+$/, "USDC amount in 6dp base units").default("0"),
+    maxBpsOfVault: bps.default(10_000),
+    maxSlippageBpsOnSwap: bps.default(150),
+    oracleConfig: z.string().regex(/^0x([0-9a-fA-F]{2})*$/).default("0x"),
+  }),
+  /** Share of the vault target allocation; active adapters must sum to 10000. */
+  targetBps: bps.default(0),
+  /** Router/guard/route setters (AerodromeVeAdapter-style adapters only); guard defaults to contracts.routerGuard. */
+  router: address.optional(),
+  guard: address.optional(),
+  depositRoute: route.optional(),
+  exitRoute: route.optional(),
+});
+
+export const deploymentConfig = z.object({
+  network: z.string(),
+  chainId: z.number().int().positive(),
+  tokens: z.record(address),
+  contracts: z.object({
+    registry: deployed,
+    vault: deployed,
+    routerGuard: deployed,
+    harvester: deployed,
+    distributor: deployed,
+    rewardSwapper: deployed.optional(),
+    voterRouter: deployed.optional(),
+  }),
+  guard: z.object({
+    routers: z.array(z.object({ router: address, allowed: z.boolean().default(true) })).default([]),
+    maxSlippage: z.array(z.object({ tokenIn: tokenRef, tokenOut: tokenRef, bps })).default([]),
+    feeds: z.array(z.object({
+      token: tokenRef,
+      aggregator: address,
+      staleAfter: z.number().int().positive(),
+      tokenDecimals: z.number().int().min(0).max(255),
+    })).default([]),
+  }),
+  adapters: z.array(adapter).default([]),
+  distributor: z.object({ feeBps: bps }),
+}).superRefine((cfg, ctx) => {
+  const sum = cfg.adapters.filter((a) => a.registry.active).reduce((s, a) => s + a.targetBps, 0);
+  if (cfg.adapters.length && sum !== 10_000) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["adapters"], message: `active targetBps must sum to 10000, got ${sum}` });
+  }
+  const known = (ref: string) => ref in cfg.tokens || address.safeParse(ref).success;
+  const refs = [
+    ...cfg.guard.maxSlippage.flatMap((s) => [s.tokenIn, s.tokenOut]),
+    ...cfg.guard.feeds.map((f) => f.token),
+    ...cfg.adapters.flatMap((a) => [a.depositRoute, a.exitRoute].flatMap((r) => (r && "tokens" in r ? r.tokens : []))),
+  ];
+  for (const ref of refs) {
+    if (!known(ref)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tokens"], message: `unknown token "${ref}"` });
+  }
+});
+
+export type DeploymentConfig = z.infer<typeof deploymentConfig>;
+export type AdapterConfig = DeploymentConfig["adapters"][number];
+export type RouteConfig = z.infer<typeof route>;
+
+/**
+ * The parts of a network config `deploy.ts` reads before anything exists on-chain;
+ * contract and adapter addresses may still be zero placeholders.
+ */
+export const deployInputs = z.object({
+  network: z.string(),
+  chainId: z.number().int().positive(),
+  tokens: z.record(address).refine((t) => !!t.USDC, "tokens.USDC is required"),
+  guard: z.object({ routers: z.array(z.object({ router: address, allowed: z.boolean().default(true) })).default([]) }),
+  adapters: z.array(z.object({ name: z.string(), router: address.optional(), guard: address.optional() })).default([]),
+  distributor: z.object({ feeBps: bps }),
+});
+
+export type DeployInputs = z.infer<typeof deployInputs>;
+
+function parseFile<T extends z.ZodTypeAny>(schema: T, path: string): z.infer<T> {
+  const parsed = schema.safeParse(JSON.parse(readFileSync(path, "utf8")));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `  ${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid config ${path}:\n${issues.join("\n")}`);
+  }
+  return parsed.data;
+}
+
+/** Read and validate a network config; throws with every issue listed. */
+export function loadConfig(path: string): DeploymentConfig {
+  return parseFile(deploymentConfig, path);
+}
+
+/** Read a network config for deployment; see `deployInputs`. */
+export function loadDeployInputs(path: string): DeployInputs {
+  return parseFile(deployInputs, path);
+}
+
+/** Resolve a token symbol (from `tokens`) or raw address. */
+export function tokenAddress(cfg: DeploymentConfig, ref: string): string {
+  return cfg.tokens[ref] ?? ref;
+}
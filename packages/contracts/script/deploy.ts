@@ -0,0 +1,109 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { ethers, network } from "hardhat";
+import { loadDeployInputs } from "./config/schema";
+import { writeManifest } from "./manifest";
+
+// Usage (deploys the core contracts and the adapters it has a recipe for, then records them):
+//   GOVERNOR=0x… GUARDIAN=0x… KEEPER=0x… TREASURY=0x… npx hardhat run script/deploy.ts --network base
+//   CONFIG=path/to/other.json overrides script/config/<network>.json
+//   OUT_DIR=path overrides packages/sdk/src/deployments
+//   RECEIPT_NAME / RECEIPT_SYMBOL name the receipt token (default PerpBond / PBOND)
+// Writes the new addresses into the config and the SDK manifest (with each contract's
+// deployment block from its receipt); then run script/configureBase.ts to wire and configure.
+
+type Deployed = { address: string; block: number };
+
+// Aerodrome on Base (see CONTRACT_ADDRESSES.md); other chains pass AERO_VOTING_ESCROW / AERO_VOTER / AERO_REWARDS_DISTRIBUTOR.
+const AERODROME: Record<number, { votingEscrow: string; voter: string; rewardsDistributor: string }> = {
+  8453: {
+    votingEscrow: "0xeBf418Fe2512e7E6bd9b87a8F0f294aCDC67e6B4",
+    voter: "0x16613524e02ad97eDfeF371bC883F2F5d6C480A5",
+    rewardsDistributor: "0x227f65131A261548b057215bB1D5Ab2997964C7d",
+  },
+};
+
+function required(key: string): string {
+  const v = process.env[key];
+  if (!v) throw new Error(`${key} is required`);
+  return ethers.getAddress(v);
+}
+
+async function deploy(name: string, args: unknown[]): Promise<Deployed> {
+  const contract = await ethers.deployContract(name, args);
+  const receipt = await contract.deploymentTransaction()!.wait();
+  if (!receipt) throw new Error(`${name}: no deployment receipt`);
+  const address = await contract.getAddress();
+  console.log(`${name} ${address} (block ${receipt.blockNumber})`);
+  return { address, block: receipt.blockNumber };
+}
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const file = process.env.CONFIG ?? `${__dirname}/config/${network.name}.json`;
+  const cfg = loadDeployInputs(file);
+  const { chainId } = await ethers.provider.getNetwork();
+  if (Number(chainId) !== cfg.chainId) throw new Error(`config is for chain ${cfg.chainId}, connected to ${chainId}`);
+  const raw = JSON.parse(readFileSync(file, "utf8"));
+  if (raw.contracts?.vault && raw.contracts.vault !== ethers.ZeroAddress) {
+    throw new Error(`${file} already records a vault (${raw.contracts.vault}); deploy from a config with zero placeholders`);
+  }
+
+  const roles = ["GOVERNOR", "GUARDIAN", "KEEPER", "TREASURY"].map(required);
+  const usdc = cfg.tokens.USDC;
+
+  const registry = await deploy("AdapterRegistry", roles);
+  // The receipt token takes the vault's address up front and the vault's `receipt` is immutable,
+  // so the token is deployed against the vault's predicted address.
+  const nonce = await ethers.provider.getTransactionCount(deployer.address, "pending");
+  const predictedVault = ethers.getCreateAddress({ from: deployer.address, nonce: nonce + 1 });
+  const receipt = await deploy("PerpBondToken", [
+    process.env.RECEIPT_NAME ?? "PerpBond", process.env.RECEIPT_SYMBOL ?? "PBOND", ...roles, predictedVault,
+  ]);
+  const vault = await deploy("PerpBondVault", [...roles, usdc, receipt.address, registry.address]);
+  if (vault.address !== predictedVault) throw new Error(`vault landed at ${vault.address}, receipt token points at ${predictedVault}`);
+  const routerGuard = await deploy("RouterGuard", roles);
+  // Distributor and Harvester reference each other; configureBase sets Distributor.harvester.
+  const distributor = await deploy("Distributor", [...roles, vault.address, ethers.ZeroAddress, cfg.distributor.feeBps]);
+  const harvester = await deploy("Harvester", [...roles, vault.address, registry.address, distributor.address]);
+  const voterRouter = await deploy("VoterRouter", [...roles, registry.address]);
+  const swapRouter = cfg.guard.routers.find((r) => r.allowed)?.router;
+  const rewardSwapper = swapRouter ? await deploy("UniV3RewardSwapper", [...roles, swapRouter, usdc]) : undefined;
+
+  const adapters: (Deployed & { name: string })[] = [];
+  for (const a of cfg.adapters) {
+    if (a.name !== "aerodrome") throw new Error(`no deploy recipe for adapter "${a.name}"; deploy it separately`);
+    const aero = AERODROME[cfg.chainId];
+    const ext = {
+      votingEscrow: process.env.AERO_VOTING_ESCROW ?? aero?.votingEscrow,
+      voter: process.env.AERO_VOTER ?? aero?.voter,
+      rewardsDistributor: process.env.AERO_REWARDS_DISTRIBUTOR ?? aero?.rewardsDistributor,
+    };
+    if (!cfg.tokens.AERO || !ext.votingEscrow || !ext.voter || !ext.rewardsDistributor) {
+      throw new Error(`aerodrome adapter needs tokens.AERO and the Aerodrome contracts for chain ${cfg.chainId}`);
+    }
+    adapters.push({
+      name: a.name,
+      ...(await deploy("AerodromeVeAdapter", [
+        ...roles, vault.address, usdc, cfg.tokens.AERO, a.router ?? ethers.ZeroAddress, a.guard ?? routerGuard.address,
+        ext.votingEscrow, ext.voter, ext.rewardsDistributor,
+      ])),
+    });
+  }
+
+  const contracts = { registry, receipt, vault, routerGuard, distributor, harvester, voterRouter, ...(rewardSwapper && { rewardSwapper }) };
+
+  // Record the addresses for configureBase (it has no slot for the receipt, which it reads from the vault).
+  const configured = Object.entries(contracts).filter(([name]) => name !== "receipt");
+  raw.contracts = { ...raw.contracts, ...Object.fromEntries(configured.map(([name, c]) => [name, c.address])) };
+  raw.adapters = (raw.adapters ?? []).map((a: { name: string }, i: number) => ({ ...a, address: adapters[i].address }));
+  writeFileSync(file, `${JSON.stringify(raw, null, 2)}\n`);
+  console.log(`Updated ${file}`);
+
+  const manifest = writeManifest({ network: cfg.network, chainId: cfg.chainId, tokens: { usdc }, contracts, adapters });
+  console.log(`Wrote ${manifest} (${Object.keys(contracts).length} contracts, ${adapters.length} adapters)`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
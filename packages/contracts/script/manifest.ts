@@ -0,0 +1,34 @@
+import { readdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parseManifest, type DeploymentManifest } from "@perp-bond/sdk";
+
+/** Where the SDK bundles manifests from; OUT_DIR overrides it. */
+export const MANIFEST_DIR = process.env.OUT_DIR ?? path.join(__dirname, "../../sdk/src/deployments");
+
+const HEADER = `// Generated by packages/contracts/script/deploy.ts; do not edit.
+// One manifest per network, keyed by file name and validated when the SDK loads (see addresses.ts).
+`;
+
+/** Rewrite deployments/index.ts so it imports every manifest in `dir`. */
+function writeIndex(dir: string) {
+  const files = readdirSync(dir).filter((f) => f.endsWith(".json")).sort();
+  const ident = (f: string) => f.replace(/\.json$/, "").replace(/[^A-Za-z0-9]+(.)/g, (_, c: string) => c.toUpperCase());
+  const imports = files.map((f) => `import ${ident(f)} from "./${f}";\n`).join("");
+  const entries = files.map((f) => `  "${f}": ${ident(f)},\n`).join("");
+  writeFileSync(
+    path.join(dir, "index.ts"),
+    `${HEADER}${imports}\nexport const manifests: Record<string, unknown> = {${entries ? `\n${entries}` : ""}};\n`,
+  );
+}
+
+/**
+ * Validate `input` the way the SDK does on load, so a bad manifest fails here rather
+ * than in the app, then write `<network>.json` and regenerate the index.
+ */
+export function writeManifest(input: unknown, dir = MANIFEST_DIR): string {
+  const manifest: DeploymentManifest = parseManifest(input, "deploy manifest");
+  const file = path.join(dir, `${manifest.network}.json`);
+  writeFileSync(file, `${JSON.stringify(manifest, null, 2)}\n`);
+  writeIndex(dir);
+  return file;
+}
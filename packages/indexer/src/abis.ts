@@ -0,0 +1,45 @@
+// Events the indexer follows, grouped by the contract that emits them.
+export const vaultEventsAbi = [
+  { type: 'event', name: 'Deposited', inputs: [
+    { name: 'user', type: 'address', indexed: true }, { name: 'usdc', type: 'uint256', indexed: false }, { name: 'shares', type: 'uint256', indexed: false }
+  ]},
+  { type: 'event', name: 'AutoCompoundSet', inputs: [
+    { name: 'user', type: 'address', indexed: true }, { name: 'on', type: 'bool', indexed: false }
+  ]},
+  { type: 'event', name: 'Rebalanced', inputs: [
+    { name: 'deployedUsdc', type: 'uint256', indexed: false }, { name: 'idleLeft', type: 'uint256', indexed: false }
+  ]},
+] as const;
+
+export const distributorEventsAbi = [
+  { type: 'event', name: 'YieldHarvested', inputs: [
+    { name: 'epoch', type: 'uint256', indexed: true }, { name: 'usdc', type: 'uint256', indexed: false }
+  ]},
+  { type: 'event', name: 'EpochClosed', inputs: [
+    { name: 'epoch', type: 'uint256', indexed: true }, { name: 'netUsdc', type: 'uint256', indexed: false },
+    { name: 'totalShares', type: 'uint256', indexed: false }, { name: 'usdcPerShareRay', type: 'uint256', indexed: false }
+  ]},
+  { type: 'event', name: 'Claimed', inputs: [
+    { name: 'user', type: 'address', indexed: true }, { name: 'usdcAmount', type: 'uint256', indexed: false }, { name: 'autoCompounded', type: 'bool', indexed: false }
+  ]},
+] as const;
+
+export const harvesterEventsAbi = [
+  { type: 'event', name: 'AdapterHarvested', inputs: [
+    { name: 'adapter', type: 'address', indexed: true }, { name: 'estimatedUsdc', type: 'uint256', indexed: false }
+  ]},
+  { type: 'event', name: 'RewardsSwapped', inputs: [
+    { name: 'token', type: 'address', indexed: true }, { name: 'swapper', type: 'address', indexed: true },
+    { name: 'amountIn', type: 'uint256', indexed: false }, { name: 'usdcOut', type: 'uint256', indexed: false }
+  ]},
+] as const;
+
+export const registryEventsAbi = [
+  { type: 'event', name: 'AdapterRegistered', inputs: [{ name: 'adapter', type: 'address', indexed: true }] },
+  { type: 'event', name: 'AdapterUpdated', inputs: [{ name: 'adapter', type: 'address', indexed: true }] },
+  { type: 'event', name: 'AdapterPaused', inputs: [
+    { name: 'adapter', type: 'address', indexed: true }, { name: 'active', type: 'bool', indexed: false }
+  ]},
+] as const;
+
+export const indexedEventsAbi = [...vaultEventsAbi, ...distributorEventsAbi, ...harvesterEventsAbi, ...registryEventsAbi] as const;
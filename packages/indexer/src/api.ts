@@ -0,0 +1,161 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { getAddress, isAddress, type Address } from "viem";
+import {
+  INDEXED_EVENTS,
+  type AdapterActivity, type EpochSummary, type EventQuery, type IndexedEvent, type IndexedEventName, type IndexerStatus, type UserActivity,
+} from "@perp-bond/sdk";
+import type { IndexerConfig } from "./config";
+import { getCursor, getMeta, queryEvents, type Db } from "./db";
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Reads every matching event; fine for the per-user / per-protocol volumes this serves.
+function all(db: Db, q: EventQuery): IndexedEvent[] {
+  const out: IndexedEvent[] = [];
+  for (let offset = 0; ; offset += 1_000) {
+    const page = queryEvents(db, { ...q, order: "asc", limit: 1_000, offset });
+    out.push(...page);
+    if (page.length < 1_000) return out;
+  }
+}
+
+const sum = (events: IndexedEvent[], key: string) => events.reduce((s, e) => s + BigInt(e.args[key] as string), 0n).toString();
+
+function intParam(params: URLSearchParams, key: string): number | undefined {
+  const v = params.get(key);
+  if (v === null) return undefined;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0) throw new HttpError(400, `${key} must be a non-negative integer`);
+  return n;
+}
+
+function addressParam(value: string | null, key: string): Address | undefined {
+  if (value === null) return undefined;
+  if (!isAddress(value)) throw new HttpError(400, `${key} is not an address`);
+  return getAddress(value);
+}
+
+export function status(db: Db, config: IndexerConfig, chainId: number): IndexerStatus {
+  const head = getMeta(db, "head");
+  const lastReorg = getMeta(db, "lastReorg");
+  return {
+    chainId,
+    startBlock: config.startBlock,
+    indexedBlock: getCursor(db, config.startBlock),
+    headBlock: head === undefined ? null : Number(head),
+    lastReorg: lastReorg ? JSON.parse(lastReorg) : null,
+  };
+}
+
+export function eventsFromQuery(db: Db, params: URLSearchParams): IndexedEvent[] {
+  const names = params.get("name")?.split(",").filter(Boolean) ?? [];
+  for (const n of names) {
+    if (!INDEXED_EVENTS.includes(n as IndexedEventName)) throw new HttpError(400, `unknown event ${n}`);
+  }
+  const order = params.get("order");
+  return queryEvents(db, {
+    name: names as IndexedEventName[],
+    user: addressParam(params.get("user"), "user"),
+    adapter: addressParam(params.get("adapter"), "adapter"),
+    epoch: intParam(params, "epoch"),
+    fromBlock: intParam(params, "fromBlock"),
+    toBlock: intParam(params, "toBlock"),
+    order: order === "asc" ? "asc" : "desc",
+    limit: intParam(params, "limit"),
+    offset: intParam(params, "offset"),
+  });
+}
+
+export function epochs(db: Db): EpochSummary[] {
+  const byEpoch = new Map<number, EpochSummary>();
+  const row = (epoch: number) => {
+    let r = byEpoch.get(epoch);
+    if (!r) byEpoch.set(epoch, r = { epoch, harvestedUsdc: "0", netUsdc: null, totalShares: null, usdcPerShareRay: null, closedAt: null });
+    return r;
+  };
+  for (const e of all(db, { name: ["YieldHarvested", "EpochClosed"] })) {
+    const r = row(Number(e.args.epoch));
+    if (e.name === "YieldHarvested") {
+      r.harvestedUsdc = (BigInt(r.harvestedUsdc) + BigInt(e.args.usdc as string)).toString();
+    } else {
+      r.netUsdc = e.args.netUsdc as string;
+      r.totalShares = e.args.totalShares as string;
+      r.usdcPerShareRay = e.args.usdcPerShareRay as string;
+      r.closedAt = e.timestamp;
+    }
+  }
+  return [...byEpoch.values()].sort((a, b) => a.epoch - b.epoch);
+}
+
+export function userActivity(db: Db, user: Address): UserActivity {
+  const events = all(db, { user, name: ["Deposited", "Claimed", "AutoCompoundSet"] });
+  const deposits = events.filter((e) => e.name === "Deposited");
+  const claims = events.filter((e) => e.name === "Claimed");
+  const toggles = events.filter((e) => e.name === "AutoCompoundSet");
+  return {
+    user,
+    deposits,
+    claims,
+    autoCompound: toggles.length ? (toggles[toggles.length - 1].args.on as boolean) : null,
+    depositedUsdc: sum(deposits, "usdc"),
+    claimedUsdc: sum(claims.filter((c) => !c.args.autoCompounded), "usdcAmount"),
+    compoundedUsdc: sum(claims.filter((c) => c.args.autoCompounded), "usdcAmount"),
+  };
+}
+
+export function adapterActivity(db: Db): AdapterActivity[] {
+  const byAdapter = new Map<string, AdapterActivity>();
+  const row = (adapter: Address) => {
+    let r = byAdapter.get(adapter.toLowerCase());
+    if (!r) byAdapter.set(adapter.toLowerCase(), r = { adapter, registeredAt: null, active: false, harvests: 0, estimatedUsdc: "0" });
+    return r;
+  };
+  for (const e of all(db, { name: ["AdapterRegistered", "AdapterPaused", "AdapterHarvested"] })) {
+    const r = row(getAddress(e.args.adapter as string));
+    if (e.name === "AdapterRegistered") {
+      r.registeredAt = e.blockNumber;
+      r.active = true;
+    } else if (e.name === "AdapterPaused") {
+      r.active = e.args.active as boolean;
+    } else {
+      r.harvests++;
+      r.estimatedUsdc = (BigInt(r.estimatedUsdc) + BigInt(e.args.estimatedUsdc as string)).toString();
+    }
+  }
+  return [...byAdapter.values()];
+}
+
+function route(db: Db, config: IndexerConfig, chainId: number, url: URL): unknown {
+  const user = url.pathname.match(/^\/users\/([^/]+)$/);
+  if (user) return userActivity(db, addressParam(user[1], "user")!);
+  switch (url.pathname) {
+    case "/status": return status(db, config, chainId);
+    case "/events": return eventsFromQuery(db, url.searchParams);
+    case "/epochs": return epochs(db);
+    case "/adapters": return adapterActivity(db);
+    default: throw new HttpError(404, `no route ${url.pathname}`);
+  }
+}
+
+/** Read-only JSON API over the index; CORS is open so the web app can call it directly. */
+export function createApi(db: Db, config: IndexerConfig, chainId: number): Server {
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader("access-control-allow-origin", "*");
+    res.setHeader("content-type", "application/json");
+    if (req.method !== "GET") {
+      res.writeHead(405).end(JSON.stringify({ error: "GET only" }));
+      return;
+    }
+    try {
+      const body = route(db, config, chainId, new URL(req.url ?? "/", "http://localhost"));
+      res.writeHead(200).end(JSON.stringify(body));
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 500;
+      res.writeHead(status).end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+    }
+  });
+}
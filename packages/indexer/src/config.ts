@@ -0,0 +1,55 @@
+import { getAddress, type Address } from "viem";
+
+export type IndexerConfig = {
+  rpcUrl: string;
+  contracts: { vault: Address; distributor: Address; harvester: Address; registry: Address };
+  /** First block to index (the deployment block). */
+  startBlock: number;
+  /** Max blocks per eth_getLogs request. */
+  batchBlocks: number;
+  /** Blocks behind head left unindexed; 0 indexes to head and relies on reorg detection. */
+  confirmations: number;
+  /** How far back a reorg is looked for before re-indexing from `startBlock`. */
+  reorgDepth: number;
+  pollSeconds: number;
+  dbPath: string;
+  port: number;
+};
+
+function required(env: NodeJS.ProcessEnv, key: string): string {
+  const v = env[key];
+  if (!v) throw new Error(`${key} is required`);
+  return v;
+}
+
+function int(env: NodeJS.ProcessEnv, key: string, fallback: number): number {
+  const v = env[key];
+  if (v === undefined) return fallback;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${key} must be a non-negative integer`);
+  return n;
+}
+
+/**
+ * Read indexer settings from the environment:
+ * RPC_URL, VAULT, DISTRIBUTOR, HARVESTER, REGISTRY, START_BLOCK, BATCH_BLOCKS,
+ * CONFIRMATIONS, REORG_DEPTH, POLL_SECONDS, DB_PATH, PORT.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  return {
+    rpcUrl: env.RPC_URL ?? "http://127.0.0.1:8545",
+    contracts: {
+      vault: getAddress(required(env, "VAULT")),
+      distributor: getAddress(required(env, "DISTRIBUTOR")),
+      harvester: getAddress(required(env, "HARVESTER")),
+      registry: getAddress(required(env, "REGISTRY")),
+    },
+    startBlock: int(env, "START_BLOCK", 0),
+    batchBlocks: int(env, "BATCH_BLOCKS", 2_000) || 1,
+    confirmations: int(env, "CONFIRMATIONS", 0),
+    reorgDepth: int(env, "REORG_DEPTH", 64),
+    pollSeconds: int(env, "POLL_SECONDS", 4),
+    dbPath: env.DB_PATH ?? "perpbond-index.sqlite",
+    port: int(env, "PORT", 4350),
+  };
+}
@@ -0,0 +1,137 @@
+import Database from "better-sqlite3";
+import type { Address, Hash } from "viem";
+import type { EventQuery, IndexedEvent } from "@perp-bond/sdk";
+
+export type Db = Database.Database;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index    INTEGER NOT NULL,
+  block_hash   TEXT NOT NULL,
+  tx_hash      TEXT NOT NULL,
+  timestamp    INTEGER NOT NULL,
+  contract     TEXT NOT NULL,
+  address      TEXT NOT NULL,
+  name         TEXT NOT NULL,
+  user         TEXT,
+  adapter      TEXT,
+  epoch        INTEGER,
+  args         TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_name ON events (name, block_number);
+CREATE INDEX IF NOT EXISTS events_user ON events (user, block_number);
+CREATE INDEX IF NOT EXISTS events_adapter ON events (adapter, block_number);
+
+-- Hashes of indexed blocks (every block with events, plus each batch's last block) for reorg checks.
+CREATE TABLE IF NOT EXISTS blocks (
+  number    INTEGER PRIMARY KEY,
+  hash      TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+`;
+
+export type StoredBlock = { number: number; hash: Hash; timestamp: number };
+
+export function openDb(path: string): Db {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+  return db;
+}
+
+export function getMeta(db: Db, key: string): string | undefined {
+  const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+export function setMeta(db: Db, key: string, value: string) {
+  db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(key, value);
+}
+
+/** Last fully indexed block, or `startBlock - 1` on a fresh database. */
+export function getCursor(db: Db, startBlock: number): number {
+  const v = getMeta(db, "cursor");
+  return v === undefined ? startBlock - 1 : Number(v);
+}
+
+/** Write one batch atomically: its events, the block hashes seen and the new cursor. */
+export function commitBatch(db: Db, events: IndexedEvent[], blocks: StoredBlock[], cursor: number) {
+  const insertEvent = db.prepare(`
+    INSERT OR REPLACE INTO events (block_number, log_index, block_hash, tx_hash, timestamp, contract, address, name, user, adapter, epoch, args)
+    VALUES (@blockNumber, @logIndex, @blockHash, @txHash, @timestamp, @contract, @address, @name, @user, @adapter, @epoch, @args)`);
+  const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (@number, @hash, @timestamp)");
+
+  db.transaction(() => {
+    for (const e of events) {
+      insertEvent.run({
+        ...e,
+        user: typeof e.args.user === "string" ? e.args.user.toLowerCase() : null,
+        adapter: typeof e.args.adapter === "string" ? e.args.adapter.toLowerCase() : null,
+        epoch: typeof e.args.epoch === "string" ? Number(e.args.epoch) : null,
+        args: JSON.stringify(e.args),
+      });
+    }
+    for (const b of blocks) insertBlock.run(b);
+    setMeta(db, "cursor", String(cursor));
+  })();
+}
+
+/** Drop everything above `block` (a reorg's common ancestor) and move the cursor back to it. */
+export function rewind(db: Db, block: number) {
+  db.transaction(() => {
+    db.prepare("DELETE FROM events WHERE block_number > ?").run(block);
+    db.prepare("DELETE FROM blocks WHERE number > ?").run(block);
+    setMeta(db, "cursor", String(block));
+  })();
+}
+
+/** Stored blocks at or below `at`, newest first. */
+export function recentBlocks(db: Db, at: number, limit: number): StoredBlock[] {
+  return db.prepare("SELECT number, hash, timestamp FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?").all(at, limit) as StoredBlock[];
+}
+
+type EventRow = {
+  block_number: number; log_index: number; block_hash: string; tx_hash: string; timestamp: number;
+  contract: string; address: string; name: string; args: string;
+};
+
+function toEvent(r: EventRow): IndexedEvent {
+  return {
+    name: r.name as IndexedEvent["name"],
+    contract: r.contract as IndexedEvent["contract"],
+    address: r.address as Address,
+    blockNumber: r.block_number,
+    blockHash: r.block_hash as Hash,
+    logIndex: r.log_index,
+    txHash: r.tx_hash as Hash,
+    timestamp: r.timestamp,
+    args: JSON.parse(r.args),
+  };
+}
+
+export const MAX_LIMIT = 1_000;
+
+export function queryEvents(db: Db, q: EventQuery): IndexedEvent[] {
+  const where: string[] = [];
+  const params: (string | number)[] = [];
+  const names = q.name === undefined ? [] : Array.isArray(q.name) ? q.name : [q.name];
+  if (names.length) {
+    where.push(`name IN (${names.map(() => "?").join(",")})`);
+    params.push(...names);
+  }
+  if (q.user) { where.push("user = ?"); params.push(q.user.toLowerCase()); }
+  if (q.adapter) { where.push("adapter = ?"); params.push(q.adapter.toLowerCase()); }
+  if (q.epoch !== undefined) { where.push("epoch = ?"); params.push(q.epoch); }
+  if (q.fromBlock !== undefined) { where.push("block_number >= ?"); params.push(q.fromBlock); }
+  if (q.toBlock !== undefined) { where.push("block_number <= ?"); params.push(q.toBlock); }
+
+  const order = q.order === "asc" ? "ASC" : "DESC";
+  const limit = Math.min(q.limit ?? 100, MAX_LIMIT);
+  const sql = `SELECT * FROM events ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY block_number ${order}, log_index ${order} LIMIT ? OFFSET ?`;
+  return (db.prepare(sql).all(...params, limit, q.offset ?? 0) as EventRow[]).map(toEvent);
+}
@@ -0,0 +1,51 @@
+import { pathToFileURL } from "node:url";
+import { createPublicClient, http, type PublicClient } from "viem";
+import { createApi } from "./api";
+import { loadConfig, type IndexerConfig } from "./config";
+import { getMeta, openDb, setMeta } from "./db";
+import { syncOnce, type IndexerContext } from "./sync";
+
+export * from "./api";
+export * from "./config";
+export * from "./db";
+export * from "./sync";
+
+/** Open the database and refuse one that was built against another chain. */
+export async function createIndexer(config: IndexerConfig): Promise<IndexerContext & { chainId: number }> {
+  const publicClient = createPublicClient({ transport: http(config.rpcUrl) }) as PublicClient;
+  const db = openDb(config.dbPath);
+  const chainId = await publicClient.getChainId();
+  const stored = getMeta(db, "chainId");
+  if (stored !== undefined && Number(stored) !== chainId) {
+    throw new Error(`${config.dbPath} indexes chain ${stored}, RPC is chain ${chainId}`);
+  }
+  setMeta(db, "chainId", String(chainId));
+  return { config, publicClient, db, chainId };
+}
+
+async function main() {
+  const ctx = await createIndexer(loadConfig());
+  createApi(ctx.db, ctx.config, ctx.chainId).listen(ctx.config.port, () => {
+    console.log(`indexer API on http://127.0.0.1:${ctx.config.port}`);
+  });
+
+  for (;;) {
+    const r = await syncOnce(ctx).catch((err: unknown) => {
+      console.error("sync failed:", err);
+      return null;
+    });
+    if (r?.rewoundTo != null) console.log(`reorg: rewound to block ${r.rewoundTo}`);
+    if (r && r.to >= r.from) console.log(`indexed ${r.from}-${r.to}: ${r.events} event(s)`);
+    // Keep going without a pause while behind head.
+    if (!r || r.to >= r.head - ctx.config.confirmations) {
+      await new Promise((res) => setTimeout(res, ctx.config.pollSeconds * 1000));
+    }
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
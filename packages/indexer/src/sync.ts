@@ -0,0 +1,105 @@
+import { isAddressEqual, type Address, type PublicClient } from "viem";
+import type { IndexedEvent } from "@perp-bond/sdk";
+import { indexedEventsAbi } from "./abis";
+import type { IndexerConfig } from "./config";
+import { commitBatch, getCursor, recentBlocks, rewind, setMeta, type Db, type StoredBlock } from "./db";
+
+export type IndexerContext = { config: IndexerConfig; publicClient: PublicClient; db: Db };
+
+export type SyncResult = {
+  head: number;
+  /** Range indexed by this call; empty (from > to) when already caught up. */
+  from: number;
+  to: number;
+  events: number;
+  rewoundTo: number | null;
+};
+
+/**
+ * Compare stored block hashes (newest first, up to `reorgDepth`) with the chain.
+ * Returns the block to rewind to, or null when the cursor block is still canonical.
+ * Stored blocks above `head` are no longer on the chain; the rest count as reorged only
+ * on a real hash mismatch, and RPC errors propagate so the caller skips the tick.
+ * Falls back to `startBlock - 1` when nothing matches, e.g. a restarted anvil.
+ */
+export async function findReorg(ctx: IndexerContext, cursor: number, head: number): Promise<number | null> {
+  const stored = recentBlocks(ctx.db, cursor, ctx.config.reorgDepth);
+  if (!stored.length) return null;
+  let compared = 0;
+  for (const [i, b] of stored.entries()) {
+    if (b.number > head) continue;
+    compared++;
+    const block = await ctx.publicClient.getBlock({ blockNumber: BigInt(b.number) });
+    if (block.hash === b.hash) return i === 0 ? null : b.number;
+  }
+  // Not one hash compared: a lagging RPC looks the same as a shorter chain, so don't wipe the index on it.
+  if (!compared) throw new Error(`RPC head ${head} is behind every recent indexed block (cursor ${cursor})`);
+  return ctx.config.startBlock - 1;
+}
+
+function contractOf(config: IndexerConfig, address: Address): IndexedEvent["contract"] {
+  const c = config.contracts;
+  if (isAddressEqual(address, c.vault)) return "vault";
+  if (isAddressEqual(address, c.distributor)) return "distributor";
+  if (isAddressEqual(address, c.harvester)) return "harvester";
+  return "registry";
+}
+
+function serialiseArgs(args: Record<string, unknown>): IndexedEvent["args"] {
+  return Object.fromEntries(Object.entries(args).map(([k, v]) => [k, typeof v === "boolean" ? v : String(v)]));
+}
+
+/** Check for a reorg, then index the next batch of at most `batchBlocks` blocks. */
+export async function syncOnce(ctx: IndexerContext): Promise<SyncResult> {
+  const { config, publicClient, db } = ctx;
+  const head = Number(await publicClient.getBlockNumber());
+  setMeta(db, "head", String(head));
+
+  let cursor = getCursor(db, config.startBlock);
+  const rewoundTo = await findReorg(ctx, cursor, head);
+  if (rewoundTo !== null) {
+    rewind(db, rewoundTo);
+    setMeta(db, "lastReorg", JSON.stringify({ at: cursor, rewoundTo }));
+    cursor = rewoundTo;
+  }
+
+  const from = cursor + 1;
+  const to = Math.min(head - config.confirmations, from + config.batchBlocks - 1);
+  if (to < from) return { head, from, to, events: 0, rewoundTo };
+
+  const logs = await publicClient.getLogs({
+    address: Object.values(config.contracts),
+    events: indexedEventsAbi,
+    fromBlock: BigInt(from),
+    toBlock: BigInt(to),
+    strict: true,
+  });
+
+  // Hash + time of every block with events, and of `to` so the next call can detect a reorg.
+  const numbers = [...new Set([...logs.map((l) => Number(l.blockNumber)), to])];
+  const blocks = new Map<number, StoredBlock>();
+  for (const n of numbers) {
+    const b = await publicClient.getBlock({ blockNumber: BigInt(n) });
+    blocks.set(n, { number: n, hash: b.hash, timestamp: Number(b.timestamp) });
+  }
+
+  const events: IndexedEvent[] = logs.map((l) => {
+    const block = blocks.get(Number(l.blockNumber))!;
+    // The block changed between getLogs and getBlock; the next call's reorg check sorts it out.
+    if (block.hash !== l.blockHash) throw new Error(`block ${block.number} reorged during sync`);
+    return {
+      name: l.eventName,
+      contract: contractOf(config, l.address),
+      address: l.address,
+      blockNumber: block.number,
+      blockHash: l.blockHash,
+      logIndex: l.logIndex,
+      txHash: l.transactionHash,
+      timestamp: block.timestamp,
+      args: serialiseArgs(l.args as Record<string, unknown>),
+    };
+  });
+
+  commitBatch(db, events, [...blocks.values()], to);
+  return { head, from, to, events: events.length, rewoundTo };
+}
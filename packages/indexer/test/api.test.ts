@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { Hash } from "viem";
+import type { IndexedEvent } from "@perp-bond/sdk";
+import { adapterActivity, epochs, eventsFromQuery, userActivity } from "../src/api";
+import { commitBatch, openDb } from "../src/db";
+
+const ALICE = "0x000000000000000000000000000000000000A11c";
+const ADAPTER = "0x00000000000000000000000000000000000000Ad";
+const hash = (n: number) => `0x${n.toString(16).padStart(64, "0")}` as Hash;
+
+let logIndex = 0;
+const event = (name: IndexedEvent["name"], blockNumber: number, args: IndexedEvent["args"]): IndexedEvent => ({
+  name, contract: "vault", address: "0x0000000000000000000000000000000000000001",
+  blockNumber, blockHash: hash(blockNumber), logIndex: logIndex++, txHash: hash(1_000 + blockNumber), timestamp: 1_700_000_000 + blockNumber, args,
+});
+
+function db() {
+  const d = openDb(":memory:");
+  commitBatch(d, [
+    event("AdapterRegistered", 1, { adapter: ADAPTER }),
+    event("Deposited", 2, { user: ALICE, usdc: "100" }),
+    event("AutoCompoundSet", 3, { user: ALICE, on: true }),
+    event("AdapterHarvested", 4, { adapter: ADAPTER.toLowerCase(), estimatedUsdc: "7" }),
+    event("YieldHarvested", 4, { epoch: "0", usdc: "5" }),
+    event("YieldHarvested", 5, { epoch: "0", usdc: "4" }),
+    event("EpochClosed", 6, { epoch: "0", netUsdc: "8", totalShares: "100", usdcPerShareRay: "80" }),
+    event("YieldHarvested", 7, { epoch: "1", usdc: "3" }),
+    event("Claimed", 8, { user: ALICE, usdcAmount: "6", autoCompounded: false }),
+    event("Claimed", 9, { user: ALICE, usdcAmount: "2", autoCompounded: true }),
+    event("Deposited", 9, { user: ALICE, usdc: "2" }),
+    event("AutoCompoundSet", 10, { user: ALICE, on: false }),
+    event("AdapterPaused", 11, { adapter: ADAPTER, active: false }),
+  ], [], 11);
+  return d;
+}
+
+describe("epochs", () => {
+  it("sums harvests per epoch and fills in closed epochs", () => {
+    expect(epochs(db())).toEqual([
+      { epoch: 0, harvestedUsdc: "9", netUsdc: "8", totalShares: "100", usdcPerShareRay: "80", closedAt: 1_700_000_006 },
+      { epoch: 1, harvestedUsdc: "3", netUsdc: null, totalShares: null, usdcPerShareRay: null, closedAt: null },
+    ]);
+  });
+});
+
+describe("userActivity", () => {
+  it("splits paid from compounded claims and keeps the last auto-compound setting", () => {
+    const a = userActivity(db(), ALICE);
+    expect(a).toMatchObject({ depositedUsdc: "102", claimedUsdc: "6", compoundedUsdc: "2", autoCompound: false });
+    expect(a.deposits.map((e) => e.blockNumber)).toEqual([2, 9]);
+    expect(a.claims).toHaveLength(2);
+  });
+
+  it("reports null auto-compound for an address that never set it", () => {
+    expect(userActivity(db(), "0x0000000000000000000000000000000000000B0b").autoCompound).toBeNull();
+  });
+});
+
+describe("adapterActivity", () => {
+  it("tracks registration, pause state and harvests per adapter regardless of address case", () => {
+    expect(adapterActivity(db())).toEqual([{ adapter: ADAPTER, registeredAt: 1, active: false, harvests: 1, estimatedUsdc: "7" }]);
+  });
+});
+
+describe("eventsFromQuery", () => {
+  it("parses names, addresses, numbers and order", () => {
+    const q = new URLSearchParams({ name: "Claimed,Deposited", user: ALICE.toLowerCase(), fromBlock: "3", order: "asc", limit: "2" });
+    expect(eventsFromQuery(db(), q).map((e) => [e.name, e.blockNumber])).toEqual([["Claimed", 8], ["Claimed", 9]]);
+  });
+
+  it("rejects unknown events, bad addresses and bad numbers with a 400", () => {
+    const bad = (params: Record<string, string>) => {
+      try {
+        eventsFromQuery(db(), new URLSearchParams(params));
+      } catch (e) {
+        return [(e as { status: number }).status, (e as Error).message];
+      }
+      return null;
+    };
+    expect(bad({ name: "Transfer" })).toEqual([400, "unknown event Transfer"]);
+    expect(bad({ user: "0x12" })).toEqual([400, "user is not an address"]);
+    expect(bad({ limit: "-1" })).toEqual([400, "limit must be a non-negative integer"]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { Hash } from "viem";
+import type { IndexedEvent } from "@perp-bond/sdk";
+import { commitBatch, getCursor, getMeta, openDb, queryEvents, recentBlocks, rewind } from "../src/db";
+
+const ALICE = "0x000000000000000000000000000000000000A11c";
+const BOB = "0x0000000000000000000000000000000000000B0b";
+const hash = (n: number) => `0x${n.toString(16).padStart(64, "0")}` as Hash;
+
+const event = (name: IndexedEvent["name"], blockNumber: number, logIndex: number, args: IndexedEvent["args"]): IndexedEvent => ({
+  name, contract: "distributor", address: "0x0000000000000000000000000000000000000002",
+  blockNumber, blockHash: hash(blockNumber), logIndex, txHash: hash(1_000 + blockNumber), timestamp: blockNumber * 2, args,
+});
+
+function seeded() {
+  const db = openDb(":memory:");
+  commitBatch(db, [
+    event("Deposited", 10, 0, { user: ALICE, usdc: "100" }),
+    event("Deposited", 10, 1, { user: BOB, usdc: "50" }),
+    event("EpochClosed", 12, 0, { epoch: "0", netUsdc: "9" }),
+    event("Claimed", 14, 0, { user: ALICE, usdcAmount: "6", autoCompounded: false }),
+  ], [10, 12, 14, 15].map((n) => ({ number: n, hash: hash(n), timestamp: n * 2 })), 15);
+  return db;
+}
+
+describe("commitBatch / rewind", () => {
+  it("stores events and block hashes and moves the cursor in one go", () => {
+    const db = seeded();
+    expect(getCursor(db, 5)).toBe(15);
+    expect(recentBlocks(db, 14, 2)).toEqual([{ number: 14, hash: hash(14), timestamp: 28 }, { number: 12, hash: hash(12), timestamp: 24 }]);
+    expect(queryEvents(db, {})).toHaveLength(4);
+  });
+
+  it("starts a fresh database just before startBlock", () => {
+    expect(getCursor(openDb(":memory:"), 5)).toBe(4);
+  });
+
+  it("drops events and blocks above the ancestor and moves the cursor back", () => {
+    const db = seeded();
+    rewind(db, 12);
+    expect(getMeta(db, "cursor")).toBe("12");
+    expect(queryEvents(db, { order: "asc" }).map((e) => e.blockNumber)).toEqual([10, 10, 12]);
+    expect(recentBlocks(db, 100, 10).map((b) => b.number)).toEqual([12, 10]);
+  });
+
+  it("rolls the whole batch back when a write fails", () => {
+    const db = seeded();
+    const bad = { ...event("Claimed", 20, 0, {}), txHash: null } as unknown as IndexedEvent;
+    expect(() => commitBatch(db, [event("Claimed", 19, 0, {}), bad], [], 20)).toThrow();
+    expect(getCursor(db, 5)).toBe(15);
+    expect(queryEvents(db, { fromBlock: 16 })).toEqual([]);
+  });
+});
+
+describe("queryEvents", () => {
+  it("filters by name, user (case-insensitively), epoch and block range", () => {
+    const db = seeded();
+    expect(queryEvents(db, { name: "Deposited" }).map((e) => e.args.user)).toEqual([BOB, ALICE]);
+    expect(queryEvents(db, { user: ALICE.toLowerCase() as `0x${string}` }).map((e) => e.name)).toEqual(["Claimed", "Deposited"]);
+    expect(queryEvents(db, { epoch: 0 }).map((e) => e.name)).toEqual(["EpochClosed"]);
+    expect(queryEvents(db, { fromBlock: 11, toBlock: 14, order: "asc" }).map((e) => e.blockNumber)).toEqual([12, 14]);
+  });
+
+  it("round-trips events and pages newest first by default", () => {
+    const db = seeded();
+    const [first] = queryEvents(db, { name: ["Claimed"] });
+    expect(first).toEqual(event("Claimed", 14, 0, { user: ALICE, usdcAmount: "6", autoCompounded: false }));
+    expect(queryEvents(db, { limit: 2, offset: 1 }).map((e) => [e.blockNumber, e.logIndex])).toEqual([[12, 0], [10, 1]]);
+  });
+});
@@ -0,0 +1,122 @@
+import { mkdtempSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  concat, createPublicClient, createTestClient, encodeAbiParameters, encodeEventTopics, getAddress, http, pad, publicActions, toHex, walletActions,
+  type AbiEvent, type Address, type Hex, type PublicClient,
+} from "viem";
+import { foundry } from "viem/chains";
+import { IndexerClient } from "@perp-bond/sdk";
+import { distributorEventsAbi, harvesterEventsAbi, registryEventsAbi, vaultEventsAbi } from "../src/abis";
+import { createApi, createIndexer, loadConfig, syncOnce, type IndexerContext } from "../src";
+
+// Opt-in: start `anvil` and set ANVIL_RPC_URL.
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+/** Runtime that emits LOG2(topic0 = calldata[0:32], topic1 = calldata[32:64], data = calldata[64:]). */
+const EMITTER: Hex = "0x602035600035604036038060406000376000a200";
+
+const at = (n: number) => getAddress(pad(toHex(0xe0e0_0000 + n), { size: 20 }));
+const contracts = { vault: at(1), distributor: at(2), harvester: at(3), registry: at(4) };
+const ALICE = at(10);
+const ADAPTER = at(11);
+
+describe.skipIf(!rpcUrl)("indexer against anvil", () => {
+  // cacheTime 0: blocks are mined between reads faster than viem's default block number cache.
+  const chain = createTestClient({ mode: "anvil", chain: foundry, transport: http(rpcUrl), cacheTime: 0 }).extend(publicActions).extend(walletActions);
+  let snapshot: Hex;
+  let ctx: IndexerContext;
+
+  /** Emit `event` from `address` in its own mined transaction. */
+  async function emit(address: Address, abi: readonly AbiEvent[], eventName: string, args: Record<string, unknown>) {
+    const event = abi.find((e) => e.name === eventName)!;
+    const [topic0, topic1] = encodeEventTopics({ abi: [event], eventName, args } as never) as Hex[];
+    const nonIndexed = event.inputs.filter((i) => !i.indexed);
+    const data = encodeAbiParameters(nonIndexed, nonIndexed.map((i) => args[i.name!]));
+    const [from] = await chain.getAddresses();
+    const hash = await chain.sendTransaction({ account: from, chain: foundry, to: address, data: concat([topic0, topic1, data]) });
+    return chain.waitForTransactionReceipt({ hash, pollingInterval: 50 });
+  }
+
+  async function syncToHead() {
+    for (;;) {
+      const r = await syncOnce(ctx);
+      if (r.to >= r.head) return r;
+    }
+  }
+
+  beforeEach(async () => {
+    snapshot = await chain.snapshot();
+    for (const address of Object.values(contracts)) await chain.setCode({ address, bytecode: EMITTER });
+    const start = Number(await chain.getBlockNumber()) + 1;
+    ctx = await createIndexer(loadConfig({
+      RPC_URL: rpcUrl,
+      VAULT: contracts.vault,
+      DISTRIBUTOR: contracts.distributor,
+      HARVESTER: contracts.harvester,
+      REGISTRY: contracts.registry,
+      START_BLOCK: String(start),
+      BATCH_BLOCKS: "2",
+      DB_PATH: join(mkdtempSync(join(tmpdir(), "indexer-")), "index.sqlite"),
+    }));
+    ctx.publicClient = createPublicClient({ transport: http(rpcUrl), cacheTime: 0 }) as PublicClient;
+  });
+  afterEach(async () => {
+    ctx.db.close();
+    await chain.revert({ id: snapshot });
+  });
+
+  it("indexes protocol events and serves them over the API", async () => {
+    await emit(contracts.registry, registryEventsAbi, "AdapterRegistered", { adapter: ADAPTER });
+    await emit(contracts.vault, vaultEventsAbi, "Deposited", { user: ALICE, usdc: 100_000_000n, shares: 99_000_000n });
+    await emit(contracts.harvester, harvesterEventsAbi, "AdapterHarvested", { adapter: ADAPTER, estimatedUsdc: 5_000_000n });
+    const head = Number(await chain.getBlockNumber());
+    await syncToHead();
+
+    const server = createApi(ctx.db, ctx.config, foundry.id).listen(0);
+    try {
+      const api = new IndexerClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+      expect(await api.status()).toMatchObject({ chainId: foundry.id, indexedBlock: head, headBlock: head, lastReorg: null });
+      expect((await api.events({ order: "asc" })).map((e) => [e.name, e.contract])).toEqual([
+        ["AdapterRegistered", "registry"], ["Deposited", "vault"], ["AdapterHarvested", "harvester"],
+      ]);
+      expect(await api.user(ALICE)).toMatchObject({ depositedUsdc: "100000000", claimedUsdc: "0", autoCompound: null });
+      expect(await api.adapters()).toMatchObject([{ adapter: ADAPTER, active: true, harvests: 1, estimatedUsdc: "5000000" }]);
+    } finally {
+      await new Promise((res) => server.close(res));
+    }
+  }, 60_000);
+
+  it("rewinds to the common ancestor after a reorg", async () => {
+    await emit(contracts.vault, vaultEventsAbi, "Deposited", { user: ALICE, usdc: 100_000_000n, shares: 100_000_000n });
+    const ancestor = Number(await chain.getBlockNumber());
+    const fork = await chain.snapshot();
+    await emit(contracts.harvester, harvesterEventsAbi, "AdapterHarvested", { adapter: ADAPTER, estimatedUsdc: 5_000_000n });
+    await syncToHead();
+
+    // Replace the harvest block with a longer branch holding a claim instead.
+    await chain.revert({ id: fork });
+    await chain.mine({ blocks: 2 });
+    await emit(contracts.distributor, distributorEventsAbi, "Claimed", { user: ALICE, usdcAmount: 1_000_000n, autoCompounded: false });
+    const r = await syncOnce(ctx);
+    expect(r.rewoundTo).toBe(ancestor);
+    await syncToHead();
+
+    const names = ctx.db.prepare("SELECT name FROM events ORDER BY block_number").all();
+    expect(names).toEqual([{ name: "Deposited" }, { name: "Claimed" }]);
+  }, 60_000);
+
+  it("skips the tick on RPC errors instead of wiping the index", async () => {
+    await emit(contracts.vault, vaultEventsAbi, "Deposited", { user: ALICE, usdc: 100_000_000n, shares: 100_000_000n });
+    const { to } = await syncToHead();
+    await chain.mine({ blocks: 1 });
+
+    const flaky = { ...ctx, publicClient: { ...ctx.publicClient, getBlock: () => Promise.reject(new Error("rpc down")) } };
+    await expect(syncOnce(flaky as IndexerContext)).rejects.toThrow("rpc down");
+    expect(ctx.db.prepare("SELECT count(*) AS n FROM events").get()).toEqual({ n: 1 });
+    expect((await syncOnce(ctx)).rewoundTo).toBeNull();
+    expect(ctx.db.prepare("SELECT value FROM meta WHERE key = 'cursor'").get()).toEqual({ value: String(to + 1) });
+  }, 60_000);
+});
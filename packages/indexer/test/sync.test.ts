@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Hash, PublicClient } from "viem";
+import { loadConfig } from "../src/config";
+import { commitBatch, getCursor, getMeta, openDb, queryEvents } from "../src/db";
+import { findReorg, syncOnce, type IndexerContext } from "../src/sync";
+
+const hash = (n: number, fork = 0) => `0x${(fork * 0x1_0000 + n).toString(16).padStart(64, "0")}` as Hash;
+
+/**
+ * Indexer over blocks 100..110 (stored hashes for 104, 106, 108, 110, one event at 106) and a chain
+ * at `head` whose blocks from `forkAt` on carry other hashes.
+ */
+function context({ head = 120, forkAt = Infinity } = {}) {
+  const config = loadConfig({
+    VAULT: "0x0000000000000000000000000000000000000001",
+    DISTRIBUTOR: "0x0000000000000000000000000000000000000002",
+    HARVESTER: "0x0000000000000000000000000000000000000003",
+    REGISTRY: "0x0000000000000000000000000000000000000004",
+    START_BLOCK: "100",
+    REORG_DEPTH: "3",
+  });
+  const db = openDb(":memory:");
+  commitBatch(db, [{
+    name: "Deposited", contract: "vault", address: config.contracts.vault, blockNumber: 106, blockHash: hash(106), logIndex: 0,
+    txHash: hash(9), timestamp: 106, args: {},
+  }], [104, 106, 108, 110].map((n) => ({ number: n, hash: hash(n), timestamp: n })), 110);
+  const publicClient = {
+    getBlockNumber: vi.fn(async () => BigInt(head)),
+    getBlock: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => {
+      const n = Number(blockNumber);
+      if (n > head) throw new Error(`block ${n} not found`);
+      return { hash: hash(n, n >= forkAt ? 1 : 0), timestamp: BigInt(n) };
+    }),
+    getLogs: vi.fn(async () => []),
+  };
+  const ctx: IndexerContext = { config, db, publicClient: publicClient as unknown as PublicClient };
+  return { ctx, publicClient };
+}
+
+describe("findReorg", () => {
+  it("returns null while the cursor block is canonical", async () => {
+    const { ctx, publicClient } = context();
+    expect(await findReorg(ctx, 110, 120)).toBeNull();
+    expect(publicClient.getBlock).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the newest stored block that still matches", async () => {
+    const { ctx } = context({ forkAt: 107 });
+    expect(await findReorg(ctx, 110, 120)).toBe(106);
+  });
+
+  it("re-indexes from startBlock when no recent hash matches", async () => {
+    const { ctx } = context({ forkAt: 100 });
+    expect(await findReorg(ctx, 110, 120)).toBe(99);
+  });
+
+  it("skips stored blocks above a shorter head and compares the rest", async () => {
+    const { ctx } = context({ head: 107 });
+    expect(await findReorg(ctx, 110, 107)).toBe(106);
+  });
+
+  it("throws instead of rewinding when the RPC lags every stored block", async () => {
+    const { ctx, publicClient } = context({ head: 105 });
+    await expect(findReorg(ctx, 110, 105)).rejects.toThrow("RPC head 105 is behind every recent indexed block (cursor 110)");
+    expect(publicClient.getBlock).not.toHaveBeenCalled();
+  });
+
+  it("propagates RPC errors rather than treating them as a mismatch", async () => {
+    const { ctx, publicClient } = context();
+    publicClient.getBlock.mockRejectedValueOnce(new Error("429 Too Many Requests"));
+    await expect(findReorg(ctx, 110, 120)).rejects.toThrow("429");
+  });
+
+  it("returns null on an empty index", async () => {
+    const { ctx } = context();
+    expect(await findReorg({ ...ctx, db: openDb(":memory:") }, 99, 120)).toBeNull();
+  });
+});
+
+describe("syncOnce", () => {
+  it("rewinds to the common ancestor on a hash mismatch and records the reorg", async () => {
+    const { ctx } = context({ forkAt: 107 });
+    const r = await syncOnce(ctx);
+    expect(r).toMatchObject({ rewoundTo: 106, from: 107, to: 120 });
+    expect(JSON.parse(getMeta(ctx.db, "lastReorg")!)).toEqual({ at: 110, rewoundTo: 106 });
+    expect(queryEvents(ctx.db, {}).map((e) => e.blockNumber)).toEqual([106]);
+    expect(getCursor(ctx.db, 100)).toBe(120);
+  });
+
+  it("leaves the index untouched when the RPC lags", async () => {
+    const { ctx } = context({ head: 103 });
+    await expect(syncOnce(ctx)).rejects.toThrow("behind every recent indexed block");
+    expect(getCursor(ctx.db, 100)).toBe(110);
+    expect(queryEvents(ctx.db, {})).toHaveLength(1);
+    expect(getMeta(ctx.db, "lastReorg")).toBeUndefined();
+  });
+});
@@ -0,0 +1,9 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // ../sdk/tsconfig.json extends a root config that isn't checked in; hand esbuild the options it needs directly.
+  esbuild: { tsconfigRaw: JSON.stringify({ compilerOptions: { target: "es2022" } }) },
+  resolve: { alias: { "@perp-bond/sdk": fileURLToPath(new URL("../sdk/src/index.ts", import.meta.url)) } },
+  test: { include: ["test/**/*.test.ts"] },
+});
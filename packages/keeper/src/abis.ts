@@ -0,0 +1,32 @@
+// Keeper-only entry points (onlyKeeper) and the views needed to decide whether to call them.
+export const harvesterAbi = [
+  { type: 'function', name: 'harvestAll', stateMutability: 'nonpayable', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'swapRewards', stateMutability: 'nonpayable', inputs: [
+    { name: 'tokens', type: 'address[]' }, { name: 'minUsdcOut', type: 'uint256[]' }
+  ], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'swapperFor', stateMutability: 'view', inputs: [{ type: 'address' }], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'usdcBalance', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'paused', stateMutability: 'view', inputs: [], outputs: [{ type: 'bool' }] },
+] as const;
+
+export const distributorKeeperAbi = [
+  { type: 'function', name: 'closeEpoch', stateMutability: 'nonpayable', inputs: [], outputs: [] },
+  { type: 'function', name: 'currentEpoch', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'paused', stateMutability: 'view', inputs: [], outputs: [{ type: 'bool' }] },
+] as const;
+
+export const vaultKeeperAbi = [
+  { type: 'function', name: 'rebalance', stateMutability: 'nonpayable', inputs: [], outputs: [] },
+  { type: 'function', name: 'idleUsdc', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'paused', stateMutability: 'view', inputs: [], outputs: [{ type: 'bool' }] },
+] as const;
+
+export const routerGuardAbi = [
+  { type: 'function', name: 'quoteMinOut', stateMutability: 'view', inputs: [
+    { name: 'tokenIn', type: 'address' }, { name: 'tokenOut', type: 'address' }, { name: 'amountIn', type: 'uint256' }
+  ], outputs: [{ type: 'uint256' }] },
+] as const;
+
+export const erc20BalanceAbi = [
+  { type: 'function', name: 'balanceOf', stateMutability: 'view', inputs: [{ type: 'address' }], outputs: [{ type: 'uint256' }] },
+] as const;
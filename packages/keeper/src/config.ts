@@ -0,0 +1,79 @@
+import { defineChain, getAddress, type Address, type Chain, type Hex } from "viem";
+import { base, baseSepolia, foundry } from "viem/chains";
+
+export const STEPS = ["harvest", "swap", "closeEpoch", "rebalance"] as const;
+export type StepName = (typeof STEPS)[number];
+
+export type KeeperConfig = {
+  rpcUrl: string;
+  chain: Chain;
+  privateKey: Hex;
+  contracts: { usdc: Address; vault: Address; distributor: Address; harvester: Address; routerGuard: Address };
+  /** Reward tokens the Harvester may hold; each is swapped to USDC with a RouterGuard floor. */
+  rewardTokens: Address[];
+  /** How often the loop wakes up (seconds). */
+  tickSeconds: number;
+  /** Minimum seconds between runs of each step; a step is due once this has elapsed. */
+  schedule: Record<StepName, number>;
+  confirmations: number;
+  /** JSON-lines file that every run is appended to. */
+  runLog: string;
+};
+
+const HOUR = 3600;
+
+const knownChains: Record<number, Chain> = { [base.id]: base, [baseSepolia.id]: baseSepolia, [foundry.id]: foundry };
+
+function required(env: NodeJS.ProcessEnv, key: string): string {
+  const v = env[key];
+  if (!v) throw new Error(`${key} is required`);
+  return v;
+}
+
+function seconds(env: NodeJS.ProcessEnv, key: string, fallback: number): number {
+  const v = env[key];
+  if (v === undefined) return fallback;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`${key} must be a number of seconds`);
+  return n;
+}
+
+/**
+ * Read keeper settings from the environment:
+ * RPC_URL, CHAIN_ID, KEEPER_PRIVATE_KEY, USDC, VAULT, DISTRIBUTOR, HARVESTER, ROUTER_GUARD,
+ * REWARD_TOKENS (CSV), TICK_SECONDS, EVERY_HARVEST / EVERY_SWAP / EVERY_CLOSE_EPOCH / EVERY_REBALANCE,
+ * CONFIRMATIONS, RUN_LOG.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): KeeperConfig {
+  const rpcUrl = required(env, "RPC_URL");
+  const chainId = Number(env.CHAIN_ID ?? foundry.id);
+  const chain = knownChains[chainId] ?? defineChain({
+    id: chainId,
+    name: `chain-${chainId}`,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  });
+
+  return {
+    rpcUrl,
+    chain,
+    privateKey: required(env, "KEEPER_PRIVATE_KEY") as Hex,
+    contracts: {
+      usdc: getAddress(required(env, "USDC")),
+      vault: getAddress(required(env, "VAULT")),
+      distributor: getAddress(required(env, "DISTRIBUTOR")),
+      harvester: getAddress(required(env, "HARVESTER")),
+      routerGuard: getAddress(required(env, "ROUTER_GUARD")),
+    },
+    rewardTokens: (env.REWARD_TOKENS ?? "").split(",").map((s) => s.trim()).filter(Boolean).map((s) => getAddress(s)),
+    tickSeconds: seconds(env, "TICK_SECONDS", 5 * 60),
+    schedule: {
+      harvest: seconds(env, "EVERY_HARVEST", 6 * HOUR),
+      swap: seconds(env, "EVERY_SWAP", 6 * HOUR),
+      closeEpoch: seconds(env, "EVERY_CLOSE_EPOCH", 7 * 24 * HOUR),
+      rebalance: seconds(env, "EVERY_REBALANCE", 24 * HOUR),
+    },
+    confirmations: Number(env.CONFIRMATIONS ?? 1),
+    runLog: env.RUN_LOG ?? "keeper-runs.jsonl",
+  };
+}
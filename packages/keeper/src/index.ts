@@ -0,0 +1,75 @@
+import { pathToFileURL } from "node:url";
+import { createPublicClient, createWalletClient, http, type PublicClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { STEPS, loadConfig, type KeeperConfig, type StepName } from "./config";
+import { appendRun, lastSuccess, readRuns, type RunRecord } from "./runs";
+import { runStep, type KeeperContext } from "./steps";
+
+export * from "./config";
+export * from "./runs";
+export * from "./steps";
+
+export function createKeeper(config: KeeperConfig): KeeperContext {
+  const account = privateKeyToAccount(config.privateKey);
+  return {
+    config,
+    account,
+    publicClient: createPublicClient({ transport: http(config.rpcUrl), chain: config.chain }) as PublicClient,
+    walletClient: createWalletClient({ transport: http(config.rpcUrl), chain: config.chain, account }),
+  };
+}
+
+/** Steps whose schedule interval has elapsed since their last successful run. */
+export function dueSteps(config: KeeperConfig, now = Date.now()): StepName[] {
+  const last = lastSuccess(readRuns(config.runLog));
+  return STEPS.filter((s) => now - (last[s] ?? 0) >= config.schedule[s] * 1000);
+}
+
+/** Run `only` (default: every due step) in protocol order and append the record to the run log. */
+export async function runOnce(ctx: KeeperContext, only: StepName[] = dueSteps(ctx.config)): Promise<RunRecord> {
+  const startedAt = new Date().toISOString();
+  const blockNumber = await ctx.publicClient.getBlockNumber();
+  const results = [];
+  for (const step of STEPS) {
+    if (only.includes(step)) results.push(await runStep(ctx, step));
+  }
+  const run: RunRecord = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    blockNumber: blockNumber.toString(),
+    keeper: ctx.account.address,
+    steps: results,
+  };
+  appendRun(ctx.config.runLog, run);
+  return run;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const ctx = createKeeper(loadConfig());
+
+  // --once: run every step now (ignores the schedule), e.g. against an anvil fork.
+  if (args.includes("--once")) {
+    console.log(JSON.stringify(await runOnce(ctx, [...STEPS]), null, 2));
+    return;
+  }
+
+  for (;;) {
+    const due = dueSteps(ctx.config);
+    if (due.length) {
+      const run = await runOnce(ctx, due).catch((err: unknown) => {
+        console.error("run failed:", err);
+        return null;
+      });
+      if (run) console.log(run.steps.map((s) => `${s.step}=${s.status}${s.reason ? ` (${s.reason})` : ""}`).join(" "));
+    }
+    await new Promise((r) => setTimeout(r, ctx.config.tickSeconds * 1000));
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,31 @@
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import type { StepName } from "./config";
+import type { StepResult } from "./steps";
+
+export type RunRecord = {
+  startedAt: string;   // ISO timestamp
+  finishedAt: string;
+  blockNumber: string;
+  keeper: string;
+  steps: StepResult[];
+};
+
+export function appendRun(path: string, run: RunRecord) {
+  appendFileSync(path, JSON.stringify(run) + "\n");
+}
+
+export function readRuns(path: string): RunRecord[] {
+  if (!existsSync(path)) return [];
+  return readFileSync(path, "utf8").split("\n").filter(Boolean).map((l) => JSON.parse(l) as RunRecord);
+}
+
+/** Last time each step ran to completion ("ok"), from the run log; skipped/failed steps stay due. */
+export function lastSuccess(runs: RunRecord[]): Partial<Record<StepName, number>> {
+  const last: Partial<Record<StepName, number>> = {};
+  for (const run of runs) {
+    for (const s of run.steps) {
+      if (s.status === "ok") last[s.step] = Date.parse(run.finishedAt);
+    }
+  }
+  return last;
+}
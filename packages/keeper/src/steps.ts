@@ -0,0 +1,111 @@
+import { zeroAddress, type Account, type Address, type Hash, type PublicClient, type WalletClient } from "viem";
+import { decodeContractError, executeWrite, type TxResult } from "@perp-bond/sdk";
+import { distributorKeeperAbi, erc20BalanceAbi, harvesterAbi, routerGuardAbi, vaultKeeperAbi } from "./abis";
+import type { KeeperConfig, StepName } from "./config";
+
+export type KeeperContext = {
+  config: KeeperConfig;
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  account: Account;
+};
+
+export type StepResult = {
+  step: StepName;
+  status: "ok" | "skipped" | "failed";
+  reason?: string;
+  hash?: Hash;
+  gasUsed?: string;
+  /** Step-specific values (amounts as decimal strings). */
+  detail?: Record<string, string>;
+};
+
+type Step = (ctx: KeeperContext) => Promise<StepResult>;
+
+function sent(step: StepName, tx: TxResult, detail?: Record<string, string>): StepResult {
+  return { step, status: "ok", hash: tx.hash, gasUsed: tx.receipt.gasUsed.toString(), detail };
+}
+
+function skipped(step: StepName, reason: string): StepResult {
+  return { step, status: "skipped", reason };
+}
+
+function isPaused(ctx: KeeperContext, address: Address): Promise<boolean> {
+  // Every core contract carries its own AccessRoles pause flag.
+  return ctx.publicClient.readContract({ address, abi: vaultKeeperAbi, functionName: "paused" });
+}
+
+function write(ctx: KeeperContext) {
+  return { publicClient: ctx.publicClient, walletClient: ctx.walletClient, account: ctx.account, confirmations: ctx.config.confirmations };
+}
+
+const harvest: Step = async (ctx) => {
+  const { harvester } = ctx.config.contracts;
+  if (await isPaused(ctx, harvester)) return skipped("harvest", "harvester paused");
+  const tx = await executeWrite(write(ctx), { address: harvester, abi: harvesterAbi, functionName: "harvestAll", args: [] });
+  return sent("harvest", tx);
+};
+
+const swap: Step = async (ctx) => {
+  const { harvester, routerGuard, usdc } = ctx.config.contracts;
+  if (await isPaused(ctx, harvester)) return skipped("swap", "harvester paused");
+
+  const tokens: Address[] = [];
+  const minOuts: bigint[] = [];
+  const detail: Record<string, string> = {};
+  for (const token of ctx.config.rewardTokens) {
+    const [swapper, balance] = await Promise.all([
+      ctx.publicClient.readContract({ address: harvester, abi: harvesterAbi, functionName: "swapperFor", args: [token] }),
+      ctx.publicClient.readContract({ address: token, abi: erc20BalanceAbi, functionName: "balanceOf", args: [harvester] }),
+    ]);
+    if (swapper === zeroAddress || balance === 0n) continue;
+    try {
+      // Oracle floor net of the guard's max slippage for token→USDC.
+      const minOut = await ctx.publicClient.readContract({
+        address: routerGuard, abi: routerGuardAbi, functionName: "quoteMinOut", args: [token, usdc, balance],
+      });
+      tokens.push(token);
+      minOuts.push(minOut);
+      detail[token] = `${balance} -> min ${minOut}`;
+    } catch (err) {
+      detail[token] = `no quote: ${decodeContractError(err).message}`;
+    }
+  }
+  if (!tokens.length) return { ...skipped("swap", "no reward balances with a swapper and oracle quote"), detail };
+
+  const tx = await executeWrite(write(ctx), {
+    address: harvester, abi: harvesterAbi, functionName: "swapRewards", args: [tokens, minOuts],
+  });
+  return sent("swap", tx, detail);
+};
+
+const closeEpoch: Step = async (ctx) => {
+  const { distributor } = ctx.config.contracts;
+  if (await isPaused(ctx, distributor)) return skipped("closeEpoch", "distributor paused");
+  const before = await ctx.publicClient.readContract({ address: distributor, abi: distributorKeeperAbi, functionName: "currentEpoch" });
+  const tx = await executeWrite(write(ctx), { address: distributor, abi: distributorKeeperAbi, functionName: "closeEpoch", args: [] });
+  // closeEpoch returns early without opening an epoch when there is nothing to distribute.
+  const after = await ctx.publicClient.readContract({ address: distributor, abi: distributorKeeperAbi, functionName: "currentEpoch" });
+  return sent("closeEpoch", tx, { epochBefore: before.toString(), epochAfter: after.toString() });
+};
+
+const rebalance: Step = async (ctx) => {
+  const { vault } = ctx.config.contracts;
+  if (await isPaused(ctx, vault)) return skipped("rebalance", "vault paused");
+  const idle = await ctx.publicClient.readContract({ address: vault, abi: vaultKeeperAbi, functionName: "idleUsdc" });
+  if (idle === 0n) return skipped("rebalance", "no idle USDC");
+  const tx = await executeWrite(write(ctx), { address: vault, abi: vaultKeeperAbi, functionName: "rebalance", args: [] });
+  return sent("rebalance", tx, { idleBefore: idle.toString() });
+};
+
+export const steps: Record<StepName, Step> = { harvest, swap, closeEpoch, rebalance };
+
+/** Run one step; reverts and RPC errors become a "failed" result instead of aborting the run. */
+export async function runStep(ctx: KeeperContext, name: StepName): Promise<StepResult> {
+  try {
+    return await steps[name](ctx);
+  } catch (err) {
+    const e = decodeContractError(err);
+    return { step: name, status: "failed", reason: e.code === "Unknown" ? e.message : `${e.code}: ${e.message}`, hash: e.details.hash };
+  }
+}
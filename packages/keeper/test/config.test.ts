@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { base, foundry } from "viem/chains";
+import { loadConfig } from "../src/config";
+
+const env = {
+  RPC_URL: "http://127.0.0.1:8545",
+  KEEPER_PRIVATE_KEY: "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  USDC: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+  VAULT: "0x0000000000000000000000000000000000000002",
+  DISTRIBUTOR: "0x0000000000000000000000000000000000000003",
+  HARVESTER: "0x0000000000000000000000000000000000000004",
+  ROUTER_GUARD: "0x0000000000000000000000000000000000000005",
+};
+
+describe("loadConfig", () => {
+  it("fills in defaults and checksums addresses", () => {
+    const config = loadConfig(env);
+    expect(config.chain).toBe(foundry);
+    expect(config.contracts.usdc).toBe("0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913");
+    expect(config.rewardTokens).toEqual([]);
+    expect(config.tickSeconds).toBe(300);
+    expect(config.schedule).toEqual({ harvest: 21_600, swap: 21_600, closeEpoch: 604_800, rebalance: 86_400 });
+    expect(config.confirmations).toBe(1);
+    expect(config.runLog).toBe("keeper-runs.jsonl");
+  });
+
+  it("reads overrides, known chains and a reward token list", () => {
+    const config = loadConfig({
+      ...env, CHAIN_ID: String(base.id), EVERY_SWAP: "60", TICK_SECONDS: "0", REWARD_TOKENS: ` ${env.USDC}, ,${env.VAULT}`,
+    });
+    expect(config.chain).toBe(base);
+    expect(config.schedule.swap).toBe(60);
+    expect(config.tickSeconds).toBe(0);
+    expect(config.rewardTokens).toEqual(["0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "0x0000000000000000000000000000000000000002"]);
+  });
+
+  it("defines a chain for unknown chain ids on the configured RPC", () => {
+    const { chain } = loadConfig({ ...env, CHAIN_ID: "777" });
+    expect(chain.id).toBe(777);
+    expect(chain.rpcUrls.default.http).toEqual([env.RPC_URL]);
+  });
+
+  it("names the missing or malformed setting", () => {
+    expect(() => loadConfig({ ...env, HARVESTER: undefined })).toThrow("HARVESTER is required");
+    expect(() => loadConfig({ ...env, EVERY_HARVEST: "soon" })).toThrow("EVERY_HARVEST must be a number of seconds");
+    expect(() => loadConfig({ ...env, TICK_SECONDS: "-1" })).toThrow("TICK_SECONDS must be a number of seconds");
+    expect(() => loadConfig({ ...env, VAULT: "0x1234" })).toThrow(/Address "0x1234" is invalid/);
+  });
+});
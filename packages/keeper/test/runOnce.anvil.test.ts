@@ -0,0 +1,76 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createTestClient, getAddress, http, pad, toHex, type Hex } from "viem";
+import { foundry } from "viem/chains";
+import { createKeeper, loadConfig, readRuns, runOnce, STEPS } from "../src";
+
+// Opt-in: start `anvil` (or `anvil --fork-url $BASE_RPC --chain-id 31337`) and set ANVIL_RPC_URL.
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+// anvil account #0
+const KEEPER_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+/** Runtime that returns false for `paused()` and uint 1 for every other call. */
+const LIVE: Hex = "0x60003560e01c635c975abb141560005260206000f3";
+/** Runtime that returns uint 1 for every call, so `paused()` reads true. */
+const PAUSED: Hex = "0x600160005260206000f3";
+/** Runtime that reverts every call with empty data. */
+const REVERTS: Hex = "0x60006000fd";
+
+const at = (n: number) => getAddress(pad(toHex(0xb0b0_0000 + n), { size: 20 }));
+const contracts = { usdc: at(1), vault: at(2), distributor: at(3), harvester: at(4), routerGuard: at(5) };
+const rewardToken = at(6);
+
+describe.skipIf(!rpcUrl)("runOnce against anvil", () => {
+  const test = createTestClient({ mode: "anvil", chain: foundry, transport: http(rpcUrl) });
+  let snapshot: Hex;
+
+  beforeEach(async () => {
+    snapshot = await test.snapshot();
+    for (const address of [...Object.values(contracts), rewardToken]) await test.setCode({ address, bytecode: LIVE });
+  });
+  afterEach(async () => {
+    await test.revert({ id: snapshot });
+  });
+
+  function keeper() {
+    const runLog = join(mkdtempSync(join(tmpdir(), "keeper-")), "runs.jsonl");
+    const config = loadConfig({
+      RPC_URL: rpcUrl,
+      CHAIN_ID: String(foundry.id),
+      KEEPER_PRIVATE_KEY,
+      USDC: contracts.usdc,
+      VAULT: contracts.vault,
+      DISTRIBUTOR: contracts.distributor,
+      HARVESTER: contracts.harvester,
+      ROUTER_GUARD: contracts.routerGuard,
+      REWARD_TOKENS: rewardToken,
+      RUN_LOG: runLog,
+    });
+    return createKeeper(config);
+  }
+
+  it("sends every step and appends the run to the log", async () => {
+    const ctx = keeper();
+    const run = await runOnce(ctx, [...STEPS]);
+
+    expect(run.steps.map((s) => [s.step, s.status])).toEqual(STEPS.map((s) => [s, "ok"]));
+    for (const s of run.steps) expect(s.hash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(run.steps.find((s) => s.step === "swap")?.detail).toEqual({ [rewardToken]: "1 -> min 1" });
+    expect(run.keeper).toBe(ctx.account.address);
+    expect(readRuns(ctx.config.runLog)).toEqual([run]);
+  }, 60_000);
+
+  it("skips paused contracts and records failures without aborting the run", async () => {
+    await test.setCode({ address: contracts.vault, bytecode: PAUSED });
+    await test.setCode({ address: contracts.distributor, bytecode: REVERTS });
+    const run = await runOnce(keeper(), [...STEPS]);
+
+    expect(Object.fromEntries(run.steps.map((s) => [s.step, s.status]))).toEqual({
+      harvest: "ok", swap: "ok", closeEpoch: "failed", rebalance: "skipped",
+    });
+    expect(run.steps.find((s) => s.step === "rebalance")?.reason).toBe("vault paused");
+  }, 60_000);
+});
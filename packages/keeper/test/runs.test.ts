@@ -0,0 +1,56 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { dueSteps, loadConfig } from "../src";
+import { appendRun, lastSuccess, readRuns, type RunRecord } from "../src/runs";
+import type { StepResult } from "../src/steps";
+
+const run = (finishedAt: string, steps: StepResult[]): RunRecord =>
+  ({ startedAt: finishedAt, finishedAt, blockNumber: "1", keeper: "0x0", steps });
+
+describe("lastSuccess", () => {
+  it("keeps the latest ok run of each step and ignores skipped and failed ones", () => {
+    const last = lastSuccess([
+      run("2026-01-01T00:00:00Z", [{ step: "harvest", status: "ok" }, { step: "swap", status: "ok" }]),
+      run("2026-01-02T00:00:00Z", [{ step: "harvest", status: "ok" }, { step: "swap", status: "failed", reason: "SlippageTooHigh" }]),
+      run("2026-01-03T00:00:00Z", [{ step: "rebalance", status: "skipped", reason: "no idle USDC" }]),
+    ]);
+    expect(last).toEqual({ harvest: Date.parse("2026-01-02T00:00:00Z"), swap: Date.parse("2026-01-01T00:00:00Z") });
+  });
+});
+
+describe("dueSteps", () => {
+  function config() {
+    const runLog = join(mkdtempSync(join(tmpdir(), "keeper-")), "runs.jsonl");
+    return loadConfig({
+      RPC_URL: "http://127.0.0.1:8545",
+      KEEPER_PRIVATE_KEY: "0x01",
+      USDC: "0x0000000000000000000000000000000000000001",
+      VAULT: "0x0000000000000000000000000000000000000002",
+      DISTRIBUTOR: "0x0000000000000000000000000000000000000003",
+      HARVESTER: "0x0000000000000000000000000000000000000004",
+      ROUTER_GUARD: "0x0000000000000000000000000000000000000005",
+      EVERY_HARVEST: "3600", EVERY_SWAP: "3600", EVERY_CLOSE_EPOCH: "3600", EVERY_REBALANCE: "3600",
+      RUN_LOG: runLog,
+    });
+  }
+
+  it("has every step due before the first run", () => {
+    expect(dueSteps(config())).toEqual(["harvest", "swap", "closeEpoch", "rebalance"]);
+  });
+
+  it("waits out each step's interval after a success; skipped and failed steps stay due", () => {
+    const cfg = config();
+    const t0 = Date.parse("2026-01-01T00:00:00Z");
+    appendRun(cfg.runLog, run(new Date(t0).toISOString(), [
+      { step: "harvest", status: "ok" },
+      { step: "swap", status: "skipped", reason: "harvester paused" },
+      { step: "closeEpoch", status: "failed", reason: "Unauthorized: not keeper" },
+      { step: "rebalance", status: "ok" },
+    ]));
+    expect(readRuns(cfg.runLog)).toHaveLength(1);
+    expect(dueSteps(cfg, t0 + 3599_000)).toEqual(["swap", "closeEpoch"]);
+    expect(dueSteps(cfg, t0 + 3600_000)).toEqual(["harvest", "swap", "closeEpoch", "rebalance"]);
+  });
+});
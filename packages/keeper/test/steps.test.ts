@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import { zeroAddress, type Address, type PublicClient, type WalletClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { KeeperConfig } from "../src/config";
+import { runStep, type KeeperContext } from "../src/steps";
+
+const HASH = `0x${"ab".repeat(32)}` as const;
+const contracts = {
+  usdc: "0x0000000000000000000000000000000000000001",
+  vault: "0x0000000000000000000000000000000000000002",
+  distributor: "0x0000000000000000000000000000000000000003",
+  harvester: "0x0000000000000000000000000000000000000004",
+  routerGuard: "0x0000000000000000000000000000000000000005",
+} as const;
+const SWAPPER = "0x0000000000000000000000000000000000005a99";
+// Reward tokens: one ready to swap, one without a swapper, one with no balance, one the guard can't price.
+const READY = "0x00000000000000000000000000000000000000a1";
+const NO_SWAPPER = "0x00000000000000000000000000000000000000a2";
+const EMPTY = "0x00000000000000000000000000000000000000a3";
+const NO_FEED = "0x00000000000000000000000000000000000000a4";
+
+type Read = { address: Address; functionName: string; args?: readonly unknown[] };
+
+/** Keeper context over a stubbed chain; `paused` lists contracts whose `paused()` is true. */
+function context({ paused = [] as Address[], rewardTokens = [READY, NO_SWAPPER, EMPTY, NO_FEED] as Address[], idle = 5n } = {}) {
+  const readContract = vi.fn(async ({ address, functionName, args }: Read) => {
+    switch (functionName) {
+      case "paused": return paused.includes(address);
+      case "swapperFor": return args![0] === NO_SWAPPER ? zeroAddress : SWAPPER;
+      case "balanceOf": return address === EMPTY ? 0n : 1_000n;
+      case "quoteMinOut":
+        if (args![0] === NO_FEED) throw new Error("OracleOutOfBounds");
+        return 990n;
+      case "idleUsdc": return idle;
+      case "currentEpoch": return 3n;
+      default: throw new Error(`unexpected ${functionName}`);
+    }
+  });
+  const simulateContract = vi.fn(async (call: { functionName: string; args: readonly unknown[] }) => ({ request: call }));
+  const publicClient = {
+    readContract,
+    simulateContract,
+    waitForTransactionReceipt: vi.fn(async () => ({ status: "success", gasUsed: 50_000n, logs: [] })),
+  };
+  const walletClient = { chain: undefined, writeContract: vi.fn(async () => HASH) };
+  const ctx: KeeperContext = {
+    config: { contracts, rewardTokens, confirmations: 1 } as unknown as KeeperConfig,
+    publicClient: publicClient as unknown as PublicClient,
+    walletClient: walletClient as unknown as WalletClient,
+    account: privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80"),
+  };
+  return { ctx, simulateContract, walletClient };
+}
+
+describe("runStep", () => {
+  it("swaps only reward tokens with a swapper, a balance and a guard quote", async () => {
+    const { ctx, simulateContract } = context();
+    const result = await runStep(ctx, "swap");
+    expect(result).toMatchObject({ step: "swap", status: "ok", hash: HASH, gasUsed: "50000" });
+    expect(simulateContract.mock.calls[0][0]).toMatchObject({ functionName: "swapRewards", args: [[READY], [990n]] });
+    expect(result.detail).toEqual({ [READY]: "1000 -> min 990", [NO_FEED]: "no quote: OracleOutOfBounds" });
+  });
+
+  it("skips the swap when no token qualifies", async () => {
+    const { ctx, walletClient } = context({ rewardTokens: [NO_SWAPPER, EMPTY] });
+    expect(await runStep(ctx, "swap")).toMatchObject({ status: "skipped", reason: "no reward balances with a swapper and oracle quote" });
+    expect(walletClient.writeContract).not.toHaveBeenCalled();
+  });
+
+  it("skips steps whose contract is paused without sending", async () => {
+    const { ctx, walletClient } = context({ paused: [contracts.harvester, contracts.distributor, contracts.vault] });
+    for (const [step, reason] of [
+      ["harvest", "harvester paused"], ["swap", "harvester paused"], ["closeEpoch", "distributor paused"], ["rebalance", "vault paused"],
+    ] as const) {
+      expect(await runStep(ctx, step)).toEqual({ step, status: "skipped", reason });
+    }
+    expect(walletClient.writeContract).not.toHaveBeenCalled();
+  });
+
+  it("skips a rebalance with no idle USDC", async () => {
+    const { ctx } = context({ idle: 0n });
+    expect(await runStep(ctx, "rebalance")).toMatchObject({ status: "skipped", reason: "no idle USDC" });
+  });
+
+  it("turns a failed send into a failed result", async () => {
+    const { ctx, walletClient } = context();
+    walletClient.writeContract.mockRejectedValueOnce(new Error("nonce too low"));
+    expect(await runStep(ctx, "harvest")).toMatchObject({ step: "harvest", status: "failed", reason: "nonce too low" });
+  });
+});
@@ -0,0 +1,11 @@
+// Shared by every contract inheriting AccessRoles
+export const accessRolesAbi = [
+  { type: 'function', name: 'governor', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'pendingGovernor', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'guardian', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'keeper', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'treasury', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'paused', stateMutability: 'view', inputs: [], outputs: [{ type: 'bool' }] },
+  { type: 'function', name: 'transferGovernorship', stateMutability: 'nonpayable', inputs: [{ name: 'newGovernor', type: 'address' }], outputs: [] },
+  { type: 'function', name: 'acceptGovernorship', stateMutability: 'nonpayable', inputs: [], outputs: [] },
+] as const;
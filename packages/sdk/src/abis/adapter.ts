@@ -0,0 +1,6 @@
+// IStrategyAdapter views (every adapter implements these)
+export const strategyAdapterAbi = [
+  { type: 'function', name: 'name', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
+  { type: 'function', name: 'tvl', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'underlyingToken', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+] as const;
@@ -2,10 +2,23 @@ export const distributorAbi = [
   { type: 'function', name: 'claimableUSDC', stateMutability: 'view', inputs: [{ type: 'address' }], outputs: [{ type: 'uint256' }] },
   { type: 'function', name: 'claim', stateMutability: 'nonpayable', inputs: [], outputs: [] },
 
-  // Epoch views (optional; else index via logs)
-  { type: 'function', name: 'epochCount', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'MAX_EPOCHS_PER_CLAIM', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'lastClaimedEpoch', stateMutability: 'view', inputs: [{ type: 'address' }], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'receipt', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+
+  // Epoch views
+  { type: 'function', name: 'epochsCount', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'currentEpoch', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
   { type: 'function', name: 'epochs', stateMutability: 'view', inputs: [{ type: 'uint256' }], outputs: [
-    { name: 'id', type: 'uint256' }, { name: 'timestamp', type: 'uint256' }, { name: 'usdc', type: 'uint256' }, { name: 'apyBps', type: 'uint16' }
+    { name: 'timestamp', type: 'uint64' }, { name: 'totalUsdc', type: 'uint256' }, { name: 'totalShares', type: 'uint256' }, { name: 'usdcPerShareRay', type: 'uint256' }
   ]},
-] as const;
 
+  // Events
+  { type: 'event', name: 'EpochClosed', inputs: [
+    { name: 'epoch', type: 'uint256', indexed: true }, { name: 'netUsdc', type: 'uint256', indexed: false },
+    { name: 'totalShares', type: 'uint256', indexed: false }, { name: 'usdcPerShareRay', type: 'uint256', indexed: false }
+  ]},
+  { type: 'event', name: 'Claimed', inputs: [
+    { name: 'user', type: 'address', indexed: true }, { name: 'usdcAmount', type: 'uint256', indexed: false }, { name: 'autoCompounded', type: 'bool', indexed: false }
+  ]},
+] as const;
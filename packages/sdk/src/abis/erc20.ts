@@ -1,7 +1,20 @@
 export const erc20Abi = [
   { type: 'function', name: 'decimals', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint8' }] },
+  { type: 'function', name: 'symbol',   stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
   { type: 'function', name: 'balanceOf', stateMutability: 'view', inputs: [{ name: 'a', type: 'address' }], outputs: [{ type: 'uint256' }] },
   { type: 'function', name: 'allowance', stateMutability: 'view', inputs: [{ name: 'o', type: 'address' },{ name: 's', type: 'address' }], outputs: [{ type: 'uint256' }] },
-  { type: 'function', name: 'approve',   stateMutability: 'nonpayable', inputs: [{ name: 's', type: 'address' },{ name: 'amt', type: 'uint256' }], outputs: [{ type: 'bool' }] }
+  { type: 'function', name: 'approve',   stateMutability: 'nonpayable', inputs: [{ name: 's', type: 'address' },{ name: 'amt', type: 'uint256' }], outputs: [{ type: 'bool' }] },
+
+  // EIP-2612 (USDC FiatToken v2+)
+  { type: 'function', name: 'name',    stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
+  { type: 'function', name: 'version', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
+  { type: 'function', name: 'nonces',  stateMutability: 'view', inputs: [{ name: 'owner', type: 'address' }], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'permit',  stateMutability: 'nonpayable', inputs: [
+    { name: 'owner', type: 'address' },{ name: 'spender', type: 'address' },{ name: 'value', type: 'uint256' },{ name: 'deadline', type: 'uint256' },
+    { name: 'v', type: 'uint8' },{ name: 'r', type: 'bytes32' },{ name: 's', type: 'bytes32' }
+  ], outputs: [] },
+
+  { type: 'event', name: 'Approval', inputs: [{ name: 'owner', type: 'address', indexed: true },{ name: 'spender', type: 'address', indexed: true },{ name: 'value', type: 'uint256', indexed: false }] },
+  { type: 'event', name: 'Transfer', inputs: [{ name: 'from', type: 'address', indexed: true },{ name: 'to', type: 'address', indexed: true },{ name: 'value', type: 'uint256', indexed: false }] }
 ] as const;
 
@@ -0,0 +1,28 @@
+// IErrors (ErrorsEvents.sol) + contract-specific errors the SDK can hit
+export const errorsAbi = [
+  // Generic
+  { type: 'error', name: 'Unauthorized', inputs: [] },
+  { type: 'error', name: 'ZeroAddress', inputs: [] },
+  { type: 'error', name: 'AlreadyInitialized', inputs: [] },
+  { type: 'error', name: 'Paused', inputs: [] },
+  { type: 'error', name: 'NotPaused', inputs: [] },
+  { type: 'error', name: 'InvalidAmount', inputs: [] },
+
+  // Registry / allocation
+  { type: 'error', name: 'CapExceeded', inputs: [] },
+  { type: 'error', name: 'InactiveAdapter', inputs: [] },
+  { type: 'error', name: 'AllocationSumNot10000', inputs: [] },
+
+  // Swap/harvest guards
+  { type: 'error', name: 'RouterNotAllowed', inputs: [] },
+  { type: 'error', name: 'SlippageTooHigh', inputs: [] },
+  { type: 'error', name: 'OracleOutOfBounds', inputs: [] },
+
+  // Token ops
+  { type: 'error', name: 'TransferFailed', inputs: [] },
+  { type: 'error', name: 'ApproveFailed', inputs: [] },
+
+  // AdapterRegistry
+  { type: 'error', name: 'AdapterAlreadyRegistered', inputs: [] },
+  { type: 'error', name: 'AdapterNotRegistered', inputs: [] },
+] as const;
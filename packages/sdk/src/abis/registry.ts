@@ -9,5 +9,6 @@ export const registryAbi = [
       { name: 'oracleConfig', type: 'bytes' }
     ]}
   ]},
+  { type: 'function', name: 'getActiveAdapters', stateMutability: 'view', inputs: [], outputs: [{ type: 'address[]' }] },
 ] as const;
 
@@ -0,0 +1,22 @@
+export const routerGuardAbi = [
+  { type: 'function', name: 'feedOf', stateMutability: 'view', inputs: [{ name: 'token', type: 'address' }], outputs: [
+    { name: 'aggregator', type: 'address' }, { name: 'staleAfter', type: 'uint48' }, { name: 'tokenDecimals', type: 'uint8' }
+  ]},
+  { type: 'function', name: 'quoteMinOut', stateMutability: 'view', inputs: [
+    { name: 'tokenIn', type: 'address' }, { name: 'tokenOut', type: 'address' }, { name: 'amountIn', type: 'uint256' }
+  ], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'maxSlippageBps', stateMutability: 'view', inputs: [{ type: 'address' }, { type: 'address' }], outputs: [{ type: 'uint16' }] },
+  { type: 'event', name: 'MaxSlippageSet', inputs: [
+    { name: 'tokenIn', type: 'address', indexed: true }, { name: 'tokenOut', type: 'address', indexed: true }, { name: 'bps', type: 'uint16', indexed: false }
+  ]},
+  { type: 'function', name: 'allowedRouters', stateMutability: 'view', inputs: [{ type: 'address' }], outputs: [{ type: 'bool' }] },
+] as const;
+
+// Chainlink AggregatorV3Interface subset used by OracleLib
+export const aggregatorV3Abi = [
+  { type: 'function', name: 'latestRoundData', stateMutability: 'view', inputs: [], outputs: [
+    { name: 'roundId', type: 'uint80' }, { name: 'answer', type: 'int256' }, { name: 'startedAt', type: 'uint256' },
+    { name: 'updatedAt', type: 'uint256' }, { name: 'answeredInRound', type: 'uint80' }
+  ]},
+  { type: 'function', name: 'decimals', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint8' }] },
+] as const;
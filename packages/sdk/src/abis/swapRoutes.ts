@@ -0,0 +1,15 @@
+// Route storage on AerodromeVeAdapter (deposit/exit) and UniV3RewardSwapper (per reward token)
+export const routedAdapterAbi = [
+  { type: 'function', name: 'usdc', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'aero', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'depositPath', stateMutability: 'view', inputs: [], outputs: [{ type: 'bytes' }] },
+  { type: 'function', name: 'depositFee', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint24' }] },
+  { type: 'function', name: 'exitPath', stateMutability: 'view', inputs: [], outputs: [{ type: 'bytes' }] },
+  { type: 'function', name: 'exitFee', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint24' }] },
+] as const;
+
+export const rewardSwapperAbi = [
+  { type: 'function', name: 'usdc', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'pathFor', stateMutability: 'view', inputs: [{ type: 'address' }], outputs: [{ type: 'bytes' }] },
+  { type: 'function', name: 'feeFor', stateMutability: 'view', inputs: [{ type: 'address' }], outputs: [{ type: 'uint24' }] },
+] as const;
@@ -0,0 +1,16 @@
+// Uniswap V3 factory lookup (pool existence per hop)
+export const uniV3FactoryAbi = [
+  { type: 'function', name: 'getPool', stateMutability: 'view', inputs: [
+    { name: 'tokenA', type: 'address' }, { name: 'tokenB', type: 'address' }, { name: 'fee', type: 'uint24' }
+  ], outputs: [{ type: 'address' }] },
+] as const;
+
+// QuoterV2 (quotes by simulating the swap; call via eth_call)
+export const quoterV2Abi = [
+  { type: 'function', name: 'quoteExactInput', stateMutability: 'nonpayable', inputs: [
+    { name: 'path', type: 'bytes' }, { name: 'amountIn', type: 'uint256' }
+  ], outputs: [
+    { name: 'amountOut', type: 'uint256' }, { name: 'sqrtPriceX96AfterList', type: 'uint160[]' },
+    { name: 'initializedTicksCrossedList', type: 'uint32[]' }, { name: 'gasEstimate', type: 'uint256' }
+  ]},
+] as const;
@@ -2,14 +2,29 @@ export const vaultAbi = [
   // ERC4626 subset
   { type: 'function', name: 'deposit',  stateMutability: 'nonpayable', inputs: [{ name: 'assets', type: 'uint256' }, { name: 'receiver', type: 'address' }], outputs: [{ type: 'uint256' }] },
   { type: 'function', name: 'totalAssets', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'idleUsdc', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
   { type: 'function', name: 'totalSupply', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
-  { type: 'function', name: 'balanceOf',   stateMutability: 'view', inputs: [{ type: 'address' }], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'convertToShares', stateMutability: 'view', inputs: [{ name: 'assets', type: 'uint256' }], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'convertToAssets', stateMutability: 'view', inputs: [{ name: 'shares', type: 'uint256' }], outputs: [{ type: 'uint256' }] },
 
   // Custom
+  { type: 'function', name: 'receipt', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { type: 'function', name: 'registry', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
   { type: 'function', name: 'autoCompoundOf', stateMutability: 'view', inputs: [{ type: 'address' }], outputs: [{ type: 'bool' }] },
   { type: 'function', name: 'setAutoCompound', stateMutability: 'nonpayable', inputs: [{ type: 'bool' }], outputs: [] },
 
-  // Read-only helper (optional; else compute from registry):
-  { type: 'function', name: 'targetAllocBps', stateMutability: 'view', inputs: [{ type: 'address' /* adapter */ }], outputs: [{ type: 'uint16' }] },
+  // AccessRoles
+  { type: 'function', name: 'paused', stateMutability: 'view', inputs: [], outputs: [{ type: 'bool' }] },
+
+  // Allocation policy (per adapter, bps of 10000)
+  { type: 'function', name: 'targetAllocationBps', stateMutability: 'view', inputs: [{ type: 'address' /* adapter */ }], outputs: [{ type: 'uint16' }] },
+
+  // Events
+  { type: 'event', name: 'Deposited', inputs: [
+    { name: 'user', type: 'address', indexed: true }, { name: 'usdc', type: 'uint256', indexed: false }, { name: 'shares', type: 'uint256', indexed: false }
+  ]},
+  { type: 'event', name: 'AutoCompoundSet', inputs: [
+    { name: 'user', type: 'address', indexed: true }, { name: 'on', type: 'bool', indexed: false }
+  ]},
 ] as const;
 
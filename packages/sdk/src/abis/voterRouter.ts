@@ -0,0 +1,14 @@
+export const voterRouterAbi = [
+  { type: 'function', name: 'executeVotes', stateMutability: 'nonpayable', inputs: [
+    { name: 'intents', type: 'tuple[]', components: [
+      { name: 'adapter', type: 'address' },
+      { name: 'gauges', type: 'address[]' },
+      { name: 'weights', type: 'uint256[]' }
+    ]}
+  ], outputs: [] },
+
+  { type: 'event', name: 'AdapterVoted', inputs: [
+    { name: 'adapter', type: 'address', indexed: true }, { name: 'items', type: 'uint256', indexed: false }
+  ]},
+  { type: 'event', name: 'VotesExecuted', inputs: [{ name: 'intentsProcessed', type: 'uint256', indexed: false }] },
+] as const;
@@ -1,25 +1,153 @@
+import { defineChain, getAddress, isAddress, zeroAddress, type Address, type Chain } from "viem";
+import { base, baseSepolia, foundry } from "viem/chains";
+import { manifests } from "./deployments";
+
 export type ChainId = 8453 | 84532 | number; // Base / Base Sepolia (default types)
 
-export type Contracts = {
-  usdc: `0x${string}`;
-  vault: `0x${string}`;
-  distributor: `0x${string}`;
-  registry: `0x${string}`;
+/** Protocol contracts a deployment may include; `usdc`, `vault` and `registry` (a Vault constructor argument) are required. */
+export const CONTRACT_NAMES = [
+  "usdc", "vault", "receipt", "distributor", "registry", "harvester", "routerGuard", "rewardSwapper", "voterRouter",
+] as const;
+export type ContractName = (typeof CONTRACT_NAMES)[number];
+
+type Required = "usdc" | "vault" | "registry";
+export type OptionalContract = Exclude<ContractName, Required>;
+
+export type Contracts = Record<Required, Address> & Partial<Record<OptionalContract, Address>>;
+
+export type DeployedContract = { address: Address; block: number };
+
+/**
+ * One network's deployment, as written by `script/deploy.ts`.
+ * `block` is the contract's deployment block (the earliest block worth scanning for logs).
+ */
+export type DeploymentManifest = {
+  network: string;
+  chainId: number;
+  tokens: { usdc: Address };
+  contracts: Record<"vault" | "registry", DeployedContract> & Partial<Record<OptionalContract, DeployedContract>>;
+  adapters: (DeployedContract & { name: string })[];
 };
 
-export const addresses: Record<ChainId, Contracts> = {
-  // TODO: fill these once deployed
-  84532: {
-    usdc:       '0x0000000000000000000000000000000000000000',
-    vault:      '0x0000000000000000000000000000000000000000',
-    distributor:'0x0000000000000000000000000000000000000000',
-    registry:   '0x0000000000000000000000000000000000000000',
-  },
-  8453: {
-    usdc:       '0x0000000000000000000000000000000000000000',
-    vault:      '0x0000000000000000000000000000000000000000',
-    distributor:'0x0000000000000000000000000000000000000000',
-    registry:   '0x0000000000000000000000000000000000000000',
-  }
+export type Deployment = DeploymentManifest & {
+  chain: Chain;
+  /** Flat address book for PerpBondClient. */
+  addresses: Contracts;
+  /** Earliest deployment block across the protocol's contracts. */
+  startBlock: number;
 };
 
+/** UI/SDK features and the contracts each one needs on-chain. */
+export const FEATURES = {
+  deposit: ["vault"],
+  position: ["vault"],
+  claim: ["distributor"],
+  epochs: ["distributor"],
+  autoCompound: ["vault", "distributor"],
+  adapters: ["registry"],
+  harvest: ["harvester", "distributor"],
+  swaps: ["routerGuard", "rewardSwapper"],
+  votes: ["voterRouter", "registry"],
+} as const satisfies Record<string, readonly ContractName[]>;
+export type Feature = keyof typeof FEATURES;
+
+const knownChains: Record<number, Chain> = { [base.id]: base, [baseSepolia.id]: baseSepolia, [foundry.id]: foundry };
+
+/** Deployed address book by chain id; filled from the registered manifests. */
+export const addresses: Record<ChainId, Contracts> = {};
+const deployments = new Map<number, Deployment>();
+
+function fail(source: string, path: string, problem: string): never {
+  throw new Error(`${source}: ${path} ${problem}`);
+}
+
+function deployedAddress(source: string, path: string, value: unknown): Address {
+  if (typeof value !== "string" || !isAddress(value, { strict: false })) fail(source, path, `is not an address (got ${JSON.stringify(value)})`);
+  if (value === zeroAddress) fail(source, path, "is the zero address; fill in the deployed address or leave the contract out");
+  return getAddress(value);
+}
+
+function deployed(source: string, path: string, value: unknown): DeployedContract {
+  const v = (value ?? {}) as { address?: unknown; block?: unknown };
+  const address = deployedAddress(source, `${path}.address`, v.address);
+  if (typeof v.block !== "number" || !Number.isInteger(v.block) || v.block < 0) fail(source, `${path}.block`, "must be the deployment block number");
+  return { address, block: v.block };
+}
+
+/** Validate an untyped manifest (e.g. parsed JSON); errors name the source and the offending field. */
+export function parseManifest(input: unknown, source = "deployment manifest"): DeploymentManifest {
+  const m = (input ?? {}) as Record<string, unknown>;
+  if (typeof m.network !== "string" || !m.network) fail(source, "network", "is required");
+  const where = `${source} (${m.network})`;
+  if (typeof m.chainId !== "number" || !Number.isInteger(m.chainId) || m.chainId <= 0) fail(where, "chainId", "must be a positive integer");
+
+  const tokens = (m.tokens ?? {}) as Record<string, unknown>;
+  const raw = (m.contracts ?? {}) as Record<string, unknown>;
+  for (const name of ["vault", "registry"]) {
+    if (!raw[name]) fail(where, `contracts.${name}`, "is required");
+  }
+  const contracts: Record<string, DeployedContract> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (!(CONTRACT_NAMES as readonly string[]).includes(name) || name === "usdc") fail(where, `contracts.${name}`, "is not a known contract");
+    contracts[name] = deployed(where, `contracts.${name}`, value);
+  }
+  if (m.adapters !== undefined && !Array.isArray(m.adapters)) fail(where, "adapters", "must be an array");
+  const adapters = ((m.adapters ?? []) as unknown[]).map((a, i) => {
+    const name = (a as { name?: unknown }).name;
+    if (typeof name !== "string" || !name) fail(where, `adapters[${i}].name`, "is required");
+    return { name, ...deployed(where, `adapters[${i}]`, a) };
+  });
+
+  return {
+    network: m.network,
+    chainId: m.chainId,
+    tokens: { usdc: deployedAddress(where, "tokens.usdc", tokens.usdc) },
+    contracts: contracts as DeploymentManifest["contracts"],
+    adapters,
+  };
+}
+
+/**
+ * Validate and register a deployment, replacing any earlier one for the same chain.
+ * Pass `chain` for networks viem doesn't know (anvil/31337 resolves to `foundry`).
+ */
+export function registerDeployment(input: unknown, chain?: Chain, source?: string): Deployment {
+  const manifest = parseManifest(input, source);
+  const resolved = chain ?? knownChains[manifest.chainId] ?? defineChain({
+    id: manifest.chainId,
+    name: manifest.network,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [] } },
+  });
+  if (resolved.id !== manifest.chainId) throw new Error(`${manifest.network}: chain ${resolved.id} passed for a chain ${manifest.chainId} manifest`);
+
+  const book = Object.fromEntries(Object.entries(manifest.contracts).map(([name, c]) => [name, c.address]));
+  const deployment: Deployment = {
+    ...manifest,
+    chain: resolved,
+    addresses: { ...book, usdc: manifest.tokens.usdc, vault: manifest.contracts.vault.address, registry: manifest.contracts.registry.address },
+    startBlock: Math.min(...Object.values(manifest.contracts).map((c) => c.block)),
+  };
+  deployments.set(manifest.chainId, deployment);
+  addresses[manifest.chainId] = deployment.addresses;
+  return deployment;
+}
+
+export function getDeployment(chainId: number): Deployment | undefined {
+  return deployments.get(chainId);
+}
+
+/** Chains with a registered deployment, in registration order. */
+export function deployedChains(): Chain[] {
+  return [...deployments.values()].map((d) => d.chain);
+}
+
+/** True when every contract `feature` needs is deployed on `chainId`. */
+export function hasFeature(chainId: number, feature: Feature): boolean {
+  const book = addresses[chainId];
+  return !!book && FEATURES[feature].every((name) => !!book[name]);
+}
+
+// Bundled manifests are validated on load: a bad one fails loudly instead of sending calls to 0x0.
+// package.json lists this module under `sideEffects` so bundlers keep the registration.
+for (const [file, m] of Object.entries(manifests)) registerDeployment(m, undefined, `deployments/${file}`);
@@ -0,0 +1,159 @@
+import { getAddress, type Address, type PublicClient } from "viem";
+import { registryAbi } from "./abis/registry";
+import { strategyAdapterAbi } from "./abis/adapter";
+import { vaultAbi } from "./abis/vault";
+import type { AdapterInfo } from "./registry";
+import { normaliseWeights } from "./votes";
+
+const BPS = 10_000n;
+
+/** On-chain inputs for one adapter (USDC amounts in 6dp). */
+export type AdapterAllocState = {
+  adapter: Address;
+  registered: boolean;
+  active: boolean;
+  tvl: bigint;
+  tvlCapUSDC: bigint;   // 0 = uncapped
+  maxBpsOfVault: number; // 0 = unlimited
+  currentBps: number;   // vault.targetAllocationBps
+};
+
+export type AllocationState = {
+  totalAssets: bigint;
+  idleUsdc: bigint;
+  adapters: AdapterAllocState[];
+};
+
+export type AllocationRow = {
+  adapter: Address;
+  currentBps: number;
+  targetBps: number;
+  tvl: bigint;
+  /** USDC the next rebalance would send here (after caps). */
+  projectedDeploy: bigint;
+  /** Part of this adapter's slice that caps keep idle. */
+  clipped: bigint;
+};
+
+export type AllocationPlan = {
+  rows: AllocationRow[];
+  /** setTargetAllocations / rebalance would revert. */
+  errors: string[];
+  /** Accepted on-chain but targets can't be met. */
+  warnings: string[];
+  /** Idle USDC left in the vault after the projected rebalance. */
+  idleAfter: bigint;
+};
+
+/**
+ * Read the vault and its registry for `planAllocation`: every adapter in `targets`
+ * plus every active one. Unregistered adapters read as zero TVL and limits.
+ */
+export async function readAllocationState(pub: PublicClient, vault: Address, targets: readonly Address[]): Promise<AllocationState> {
+  const registry = await pub.readContract({ address: vault, abi: vaultAbi, functionName: "registry" });
+  const [totalAssets, idleUsdc, list] = await Promise.all([
+    pub.readContract({ address: vault, abi: vaultAbi, functionName: "totalAssets" }),
+    pub.readContract({ address: vault, abi: vaultAbi, functionName: "idleUsdc" }),
+    pub.readContract({ address: registry, abi: registryAbi, functionName: "list" }),
+  ]);
+  const infos = new Map<string, AdapterInfo>(list.map((i) => [i.adapter.toLowerCase(), i]));
+  const addrs = [...new Set([...targets, ...list.filter((i) => i.active).map((i) => i.adapter)].map((x) => getAddress(x)))];
+
+  const adapters = await Promise.all(addrs.map(async (adapter): Promise<AdapterAllocState> => {
+    const info = infos.get(adapter.toLowerCase());
+    const [tvl, currentBps] = await Promise.all([
+      info ? pub.readContract({ address: adapter, abi: strategyAdapterAbi, functionName: "tvl" }).catch(() => 0n) : 0n,
+      pub.readContract({ address: vault, abi: vaultAbi, functionName: "targetAllocationBps", args: [adapter] }),
+    ]);
+    return {
+      adapter,
+      registered: !!info,
+      active: !!info?.active,
+      tvl,
+      tvlCapUSDC: info?.tvlCapUSDC ?? 0n,
+      maxBpsOfVault: info?.maxBpsOfVault ?? 0,
+      currentBps,
+    };
+  }));
+  return { totalAssets, idleUsdc, adapters };
+}
+
+/**
+ * Check `targets` (adapter → bps) against registry state and project the next
+ * `rebalance`, which only deploys idle USDC: each adapter gets idle × bps, clipped
+ * to its TVL cap and its max share of the vault.
+ */
+export function planAllocation(targets: Record<string, number>, state: AllocationState): AllocationPlan {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const byAddr = new Map(state.adapters.map((a) => [a.adapter.toLowerCase(), a]));
+
+  const sum = Object.values(targets).reduce((a, b) => a + b, 0);
+  if (sum !== 10_000) errors.push(`bps must sum to 10000, got ${sum}`);
+
+  for (const [adapter, bps] of Object.entries(targets)) {
+    const a = byAddr.get(adapter.toLowerCase());
+    if (!a?.registered) errors.push(`${adapter}: not registered`);
+    else if (!a.active) errors.push(`${adapter}: inactive in registry`);
+    if (!Number.isInteger(bps) || bps < 0 || bps > 10_000) errors.push(`${adapter}: bps ${bps} out of range`);
+  }
+
+  const target = (adapter: string) => Object.entries(targets).find(([k]) => k.toLowerCase() === adapter.toLowerCase())?.[1];
+
+  let deployed = 0n;
+  const rows: AllocationRow[] = state.adapters
+    .filter((a) => a.active || target(a.adapter) !== undefined)
+    .map((a) => {
+      const targetBps = target(a.adapter) ?? 0;
+      const desired = (state.idleUsdc * BigInt(targetBps)) / BPS;
+      let room: bigint | null = null;
+      if (a.tvlCapUSDC > 0n) room = a.tvlCapUSDC > a.tvl ? a.tvlCapUSDC - a.tvl : 0n;
+      if (a.maxBpsOfVault > 0) {
+        const allowed = (state.totalAssets * BigInt(a.maxBpsOfVault)) / BPS;
+        const left = allowed > a.tvl ? allowed - a.tvl : 0n;
+        room = room === null || left < room ? left : room;
+      }
+      const projectedDeploy = room !== null && desired > room ? room : desired;
+      deployed += projectedDeploy;
+
+      if (targetBps > 0 && a.maxBpsOfVault > 0 && targetBps > a.maxBpsOfVault) {
+        warnings.push(`${a.adapter}: target ${targetBps}bps exceeds maxBpsOfVault ${a.maxBpsOfVault}`);
+      }
+      if (projectedDeploy < desired) {
+        warnings.push(`${a.adapter}: cap clips ${desired - projectedDeploy} of ${desired} USDC (6dp) at next rebalance`);
+      }
+      return { adapter: a.adapter, currentBps: a.currentBps, targetBps, tvl: a.tvl, projectedDeploy, clipped: desired - projectedDeploy };
+    });
+
+  return { rows, errors, warnings, idleAfter: state.idleUsdc - deployed };
+}
+
+/**
+ * Turn relative weights (e.g. risk-adjusted APY) into bps summing to 10000,
+ * capping each adapter at its `maxBpsOfVault` and handing the excess to the rest
+ * in proportion to their weights.
+ */
+export function suggestTargets(weights: Record<string, number>, maxBps: Record<string, number> = {}): Record<string, number> {
+  const keys = Object.keys(weights).filter((k) => weights[k] > 0);
+  if (!keys.length) throw new Error("no positive weights");
+  const cap = (k: string) => (maxBps[k] && maxBps[k] > 0 ? maxBps[k] : 10_000);
+  if (keys.reduce((s, k) => s + cap(k), 0) < 10_000) throw new Error("maxBpsOfVault caps sum to less than 10000");
+
+  const fixed: Record<string, number> = {};
+  let free = keys;
+  let budget = 10_000;
+  for (;;) {
+    const shares = normaliseWeights(free.map((k) => weights[k]), BigInt(budget)).map(Number);
+    const over = free.filter((k, i) => shares[i] > cap(k));
+    if (!over.length) {
+      free.forEach((k, i) => (fixed[k] = shares[i]));
+      return fixed;
+    }
+    for (const k of over) {
+      fixed[k] = cap(k);
+      budget -= cap(k);
+    }
+    free = free.filter((k) => !over.includes(k));
+    if (!free.length) return fixed;
+  }
+}
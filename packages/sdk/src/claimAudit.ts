@@ -0,0 +1,165 @@
+import { getAbiItem, zeroAddress, type Address, type PublicClient } from "viem";
+import { distributorAbi } from "./abis/distributor";
+import { erc20Abi } from "./abis/erc20";
+import { LOG_BLOCK_RANGE, pagedLogs } from "./logs";
+import { Reader } from "./reader";
+
+/** Holders whose balance/claim state is read per multicall (three calls each). */
+const HOLDER_BATCH = 100;
+const RAY = 10n ** 27n;
+const WAD_PER_USDC = 10n ** 12n;
+
+/** A position in the log stream; state "at" a log includes every earlier log of the block. */
+type LogPos = { blockNumber: bigint; logIndex: number };
+
+export type ShareTransfer = LogPos & { from: Address; to: Address; value: bigint };
+
+export type EpochCheckpoint = LogPos & { epoch: number; totalShares: bigint; usdcPerShareRay: bigint };
+
+/** Receipt balances of every holder as of one `EpochClosed` log. */
+export type EpochSnapshot = {
+  epoch: number;
+  totalShares: bigint; // recorded by the Distributor
+  rebuiltShares: bigint; // sum of rebuilt balances; differs when transfer logs are incomplete
+  balances: Map<Address, bigint>;
+};
+
+export type ClaimDiscrepancy = {
+  holder: Address;
+  shares: bigint;         // current receipt balance
+  lastClaimedEpoch: number;
+  /** Already paid via `Claimed` (wallet + auto-compounded) vs. snapshot entitlement for epochs [0, lastClaimedEpoch). */
+  paidUsdc: bigint;
+  fairPaidUsdc: bigint;
+  /** `claimableUSDC` today vs. snapshot entitlement over the same capped window. */
+  claimableUsdc: bigint;
+  fairClaimableUsdc: bigint;
+  /** (paid + claimable) − (fairPaid + fairClaimable); positive = holder gets more than they earned. */
+  deltaUsdc: bigint;
+  /** Unclaimed epochs past the per-claim cap, left out of both claimable figures. */
+  epochsBeyondCap: number;
+};
+
+export type ClaimAuditReport = {
+  epochs: number;
+  snapshots: EpochSnapshot[];
+  holders: ClaimDiscrepancy[];
+  overpaidUsdc: bigint;
+  underpaidUsdc: bigint;
+};
+
+const before = (a: LogPos, b: LogPos) => a.blockNumber < b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex < b.logIndex);
+
+/** Replay receipt transfers up to each epoch close (both lists in any order). */
+export function snapshotBalances(transfers: readonly ShareTransfer[], checkpoints: readonly EpochCheckpoint[]): EpochSnapshot[] {
+  const moves = [...transfers].sort((a, b) => (before(a, b) ? -1 : 1));
+  const closes = [...checkpoints].sort((a, b) => a.epoch - b.epoch);
+  const balances = new Map<Address, bigint>();
+  const snapshots: EpochSnapshot[] = [];
+
+  let i = 0;
+  for (const c of closes) {
+    for (; i < moves.length && before(moves[i], c); i++) {
+      const t = moves[i];
+      if (t.from !== zeroAddress) balances.set(t.from, (balances.get(t.from) ?? 0n) - t.value);
+      if (t.to !== zeroAddress) balances.set(t.to, (balances.get(t.to) ?? 0n) + t.value);
+    }
+    const held = new Map([...balances].filter(([, v]) => v > 0n));
+    snapshots.push({
+      epoch: c.epoch,
+      totalShares: c.totalShares,
+      rebuiltShares: [...held.values()].reduce((s, v) => s + v, 0n),
+      balances: held,
+    });
+  }
+  return snapshots;
+}
+
+/**
+ * USDC owed to `holder` for epochs [from, to) from snapshot balances, with the
+ * Distributor's rounding: per-epoch WAD amounts summed, then scaled to 6 decimals.
+ */
+export function snapshotEntitlement(snapshots: readonly EpochSnapshot[], rays: ReadonlyMap<number, bigint>, holder: Address, from: number, to: number): bigint {
+  let sumWad = 0n;
+  for (const s of snapshots) {
+    if (s.epoch < from || s.epoch >= to) continue;
+    sumWad += ((s.balances.get(holder) ?? 0n) * (rays.get(s.epoch) ?? 0n)) / RAY;
+  }
+  return sumWad / WAD_PER_USDC;
+}
+
+/**
+ * Measure how far the Distributor's current-balance claims drift from
+ * per-epoch snapshot entitlements, for every address that ever held or claimed.
+ * `fromBlock` must be at or before the receipt token's first mint; logs are
+ * scanned from there in `logBlockRange` windows and every read is pinned to one head.
+ */
+export async function auditClaims(
+  pub: PublicClient,
+  distributor: Address,
+  fromBlock: bigint,
+  logBlockRange = LOG_BLOCK_RANGE,
+): Promise<ClaimAuditReport> {
+  const reader = new Reader(pub);
+  const toBlock = await pub.getBlockNumber();
+  const [receipt, currentEpoch, cap] = await Promise.all([
+    reader.read({ address: distributor, abi: distributorAbi, functionName: "receipt" }, toBlock),
+    reader.read({ address: distributor, abi: distributorAbi, functionName: "currentEpoch" }, toBlock),
+    reader.read({ address: distributor, abi: distributorAbi, functionName: "MAX_EPOCHS_PER_CLAIM" }, toBlock),
+  ]);
+  const scan = <T>(fetch: (range: { fromBlock: bigint; toBlock: bigint }) => Promise<T[]>) =>
+    pagedLogs(fromBlock, toBlock, fetch, logBlockRange);
+  const [transferLogs, closedLogs, claimedLogs] = await Promise.all([
+    scan((range) => pub.getLogs({ address: receipt, event: getAbiItem({ abi: erc20Abi, name: "Transfer" }), ...range, strict: true })),
+    scan((range) => pub.getLogs({ address: distributor, event: getAbiItem({ abi: distributorAbi, name: "EpochClosed" }), ...range, strict: true })),
+    scan((range) => pub.getLogs({ address: distributor, event: getAbiItem({ abi: distributorAbi, name: "Claimed" }), ...range, strict: true })),
+  ]);
+
+  const transfers = transferLogs.map((l) => ({ ...l.args, blockNumber: l.blockNumber, logIndex: l.logIndex }));
+  const checkpoints = closedLogs.map((l) => ({
+    epoch: Number(l.args.epoch), totalShares: l.args.totalShares, usdcPerShareRay: l.args.usdcPerShareRay,
+    blockNumber: l.blockNumber, logIndex: l.logIndex,
+  }));
+  const snapshots = snapshotBalances(transfers, checkpoints);
+  const rays = new Map(checkpoints.map((c) => [c.epoch, c.usdcPerShareRay]));
+
+  const paid = new Map<Address, bigint>();
+  for (const l of claimedLogs) paid.set(l.args.user, (paid.get(l.args.user) ?? 0n) + l.args.usdcAmount);
+
+  const holders = [...new Set([...transfers.flatMap((t) => [t.from, t.to]), ...paid.keys()])].filter((a) => a !== zeroAddress);
+  const current = Number(currentEpoch);
+  const maxEpochsPerClaim = Number(cap);
+
+  const audit = async (holder: Address): Promise<ClaimDiscrepancy> => {
+    const [shares, last, claimableUsdc] = await Promise.all([
+      reader.read({ address: receipt, abi: erc20Abi, functionName: "balanceOf", args: [holder] }, toBlock),
+      reader.read({ address: distributor, abi: distributorAbi, functionName: "lastClaimedEpoch", args: [holder] }, toBlock),
+      reader.read({ address: distributor, abi: distributorAbi, functionName: "claimableUSDC", args: [holder] }, toBlock),
+    ]);
+    const lastClaimedEpoch = Number(last);
+    const windowEnd = Math.min(current, lastClaimedEpoch + maxEpochsPerClaim);
+    const paidUsdc = paid.get(holder) ?? 0n;
+    // Each past claim rounds separately, so fairPaid can differ from paid by a few wei even without transfers.
+    const fairPaidUsdc = snapshotEntitlement(snapshots, rays, holder, 0, lastClaimedEpoch);
+    const fairClaimableUsdc = snapshotEntitlement(snapshots, rays, holder, lastClaimedEpoch, windowEnd);
+    return {
+      holder, shares, lastClaimedEpoch, paidUsdc, fairPaidUsdc, claimableUsdc, fairClaimableUsdc,
+      deltaUsdc: paidUsdc + claimableUsdc - fairPaidUsdc - fairClaimableUsdc,
+      epochsBeyondCap: current - windowEnd,
+    };
+  };
+  // One multicall per batch of holders rather than 3×N concurrent reads.
+  const rows: ClaimDiscrepancy[] = [];
+  for (let i = 0; i < holders.length; i += HOLDER_BATCH) {
+    rows.push(...(await Promise.all(holders.slice(i, i + HOLDER_BATCH).map(audit))));
+  }
+
+  rows.sort((a, b) => (b.deltaUsdc > a.deltaUsdc ? 1 : b.deltaUsdc < a.deltaUsdc ? -1 : 0));
+  return {
+    epochs: current,
+    snapshots,
+    holders: rows,
+    overpaidUsdc: rows.reduce((s, r) => (r.deltaUsdc > 0n ? s + r.deltaUsdc : s), 0n),
+    underpaidUsdc: rows.reduce((s, r) => (r.deltaUsdc < 0n ? s - r.deltaUsdc : s), 0n),
+  };
+}
@@ -1,10 +1,694 @@
-import { createPublicClient, createWalletClient, http, type Account, type Transport } from "viem";
+import {
+  AbiDecodingDataSizeTooSmallError,
+  AbiDecodingZeroDataError,
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  createPublicClient,
+  type Abi,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ReadContractParameters,
+  type ReadContractReturnType,
+  createWalletClient,
+  custom,
+  formatUnits,
+  getAbiItem,
+  http,
+  maxUint256,
+  parseUnits,
+  type Account,
+  type Address,
+  type Chain,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+  zeroAddress,
+} from "viem";
+import { addresses, getDeployment, type Contracts, type OptionalContract } from "./addresses";
+import { Reader, type ReaderOptions } from "./reader";
+import { LOG_BLOCK_RANGE, blockTimestamps, pagedLogs, type BlockRange } from "./logs";
+import { executeBatch, executeWrite, supportsAtomicBatch, type TxOptions, type TxResult, type WriteCall } from "./tx";
+import { erc20Abi } from "./abis/erc20";
+import { vaultAbi } from "./abis/vault";
+import { distributorAbi } from "./abis/distributor";
+import { registryAbi } from "./abis/registry";
+import type { AdapterHeadroom, DepositPreview, Overview, Position } from "./vault";
+import { splitClaims, type ClaimAllOptions, type ClaimStatus } from "./distributor";
+import { DEFAULT_PROJECTION_EPOCHS, projectCompounding, type CompoundEvent, type CompoundProjection } from "./compound";
+import { DEFAULT_PERMIT_TTL, permitSignatureParts, permitTypes, type DepositMode, type DepositOptions, type DepositResult } from "./deposit";
+import { decodeOracleConfig, type AdapterRow } from "./registry";
+import { strategyAdapterAbi } from "./abis/adapter";
+import { TRAILING_APY_EPOCHS, toEpochRows, trailingApy, type EpochPage, type EpochRange, type RawEpoch } from "./epochs";
 
-export function makePublicClient(rpcUrl: string, chain: { id: number; name?: string }) {
+export function makePublicClient(rpcUrl: string, chain: Chain): PublicClient<Transport, Chain> {
   return createPublicClient({ transport: http(rpcUrl), chain });
 }
 
-export function makeWalletClient(rpcUrl: string, chain: { id: number }, account: Account) {
+export function makeWalletClient(rpcUrl: string, chain: Chain, account: Account): WalletClient<Transport, Chain, Account> {
   return createWalletClient({ transport: http(rpcUrl) as Transport, chain, account });
 }
 
+// Free functions share one client, and so one Reader cache, per public client and chain.
+const shared = new WeakMap<PublicClient, Map<number, PerpBondClient>>();
+
+/**
+ * Memoised read client for `pub` on `chainId`, so free-function calls issued in
+ * the same tick batch into one multicall and share the per-block cache.
+ * Rebuilt when the chain's registered address book changes.
+ */
+export function clientFor(pub: PublicClient, chainId: number): PerpBondClient {
+  let byChain = shared.get(pub);
+  if (!byChain) shared.set(pub, (byChain = new Map()));
+  const cached = byChain.get(chainId);
+  if (cached && cached.contracts === addresses[chainId]) return cached;
+  const client = new PerpBondClient({ publicClient: pub, chainId });
+  byChain.set(chainId, client);
+  return client;
+}
+
+export type PerpBondClientConfig = {
+  publicClient: PublicClient;
+  walletClient?: WalletClient;
+  /** Defaults to `publicClient.chain.id`. */
+  chainId?: number;
+  /** Defaults to the address book entry for `chainId`. */
+  contracts?: Contracts;
+  /** Read batching/caching options, or an existing reader to share its cache. */
+  batch?: ReaderOptions | Reader;
+  /** Pin every read to this block. */
+  blockNumber?: bigint;
+  /** Blocks to wait after inclusion for every write (default 1). */
+  confirmations?: number;
+  /**
+   * First block log scans start from; defaults to the chain manifest's deployment block.
+   * Log-based reads throw without one rather than scanning from genesis.
+   */
+  startBlock?: bigint;
+  /** Max blocks per `eth_getLogs` request (default 10,000). */
+  logBlockRange?: bigint;
+};
+
+/**
+ * Typed entry point for the PerpBond contracts on a single chain.
+ * Chain and contract addresses are resolved once at construction.
+ */
+export class PerpBondClient {
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient;
+  readonly chainId: number;
+  readonly contracts: Contracts;
+  readonly reader: Reader;
+  readonly blockNumber?: bigint;
+  readonly confirmations: number;
+  readonly startBlock?: bigint;
+  readonly logBlockRange: bigint;
+
+  constructor(config: PerpBondClientConfig) {
+    const chainId = config.chainId ?? config.publicClient.chain?.id;
+    if (chainId === undefined) throw new Error("chainId required: public client has no chain");
+    const contracts = config.contracts ?? addresses[chainId];
+    if (!contracts) throw new Error(`no addresses for chain ${chainId}`);
+
+    this.publicClient = config.publicClient;
+    this.walletClient = config.walletClient;
+    this.chainId = chainId;
+    this.contracts = contracts;
+    this.reader = config.batch instanceof Reader ? config.batch : new Reader(config.publicClient, config.batch);
+    this.blockNumber = config.blockNumber;
+    this.confirmations = config.confirmations ?? 1;
+    // Custom contracts may not match the registered deployment, so only its block is trusted for the book it came from.
+    const deployment = config.contracts ? undefined : getDeployment(chainId);
+    this.startBlock = config.startBlock ?? (deployment ? BigInt(deployment.startBlock) : undefined);
+    this.logBlockRange = config.logBlockRange ?? LOG_BLOCK_RANGE;
+  }
+
+  /** Build from a wallet alone; reads go through the wallet's own transport. */
+  static fromWallet(walletClient: WalletClient, chainId?: number): PerpBondClient {
+    const publicClient = createPublicClient({
+      chain: walletClient.chain,
+      transport: custom({ request: walletClient.request }),
+    });
+    return new PerpBondClient({ publicClient, walletClient, chainId: chainId ?? walletClient.chain?.id });
+  }
+
+  /** Same client bound to another wallet (e.g., after the user connects). */
+  withWallet(walletClient: WalletClient): PerpBondClient {
+    return this.derive({ walletClient });
+  }
+
+  /** Same client with every read pinned to `blockNumber`, for a consistent snapshot. */
+  atBlock(blockNumber: bigint): PerpBondClient {
+    return this.derive({ blockNumber });
+  }
+
+  /** Pin to the current block; use for multi-call views that must agree with each other. */
+  async atLatestBlock(): Promise<PerpBondClient> {
+    return this.atBlock(await this.reader.getBlockNumber());
+  }
+
+  // -----------------------------------------------------------------------
+  // Vault
+  // -----------------------------------------------------------------------
+
+  /** TVL, trailing net APY and target allocation across the registry's active adapters. */
+  async getOverview(): Promise<Overview> {
+    const [assets, active, price] = await Promise.all([
+      this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "totalAssets" }),
+      this.read({ address: this.contracts.registry, abi: registryAbi, functionName: "getActiveAdapters" }),
+      this.sharePriceUsdc(),
+    ]);
+
+    const [names, bps, epochs] = await Promise.all([
+      Promise.all(active.map((adapter) => this.adapterName(adapter))),
+      Promise.all(active.map((adapter) => this.read({
+        address: this.contracts.vault, abi: vaultAbi, functionName: "targetAllocationBps", args: [adapter],
+      }))),
+      // No distributor yet (partial deployment): no realized yield to annualise.
+      this.contracts.distributor ? this.getEpochs({ limit: TRAILING_APY_EPOCHS + 1 }) : { rows: [] },
+    ]);
+
+    return {
+      tvl: Number(formatUnits(assets, 6)), // USDC 6dp
+      apy: trailingApy(epochs.rows, price),
+      allocations: active.map((adapter, i) => ({ name: names[i], bps: bps[i], adapter })),
+    };
+  }
+
+  getAutoCompound(user: Address): Promise<boolean> {
+    return this.read({
+      address: this.contracts.vault, abi: vaultAbi, functionName: "autoCompoundOf", args: [user],
+    });
+  }
+
+  setAutoCompound(on: boolean, opts?: TxOptions): Promise<TxResult> {
+    return this.write({ address: this.contracts.vault, abi: vaultAbi, functionName: "setAutoCompound", args: [on] }, opts);
+  }
+
+  /**
+   * Shares `amount` USDC would mint now, how the next rebalance would split it
+   * (with any USDC already idle in the vault) across active adapters against
+   * their caps, and anything that would make
+   * `deposit` revert. Pass `user` to also check their USDC balance.
+   */
+  async previewDeposit(amount: string, user?: Address): Promise<DepositPreview> {
+    let amt = 0n;
+    const blockers: string[] = [];
+    try {
+      amt = parseUnits(amount || "0", 6);
+    } catch {
+      blockers.push("Enter a valid USDC amount.");
+    }
+
+    const [shares, paused, assets, idleBefore, infos, active, balance] = await Promise.all([
+      this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "convertToShares", args: [amt] }),
+      this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "paused" }),
+      this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "totalAssets" }),
+      this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "idleUsdc" }),
+      this.read({ address: this.contracts.registry, abi: registryAbi, functionName: "list" }),
+      this.read({ address: this.contracts.registry, abi: registryAbi, functionName: "getActiveAdapters" }),
+      user ? this.getUsdcBalance(user) : undefined,
+    ]);
+
+    const byAddress = new Map(infos.map((info) => [info.adapter.toLowerCase(), info]));
+    const [names, bps, tvls] = await Promise.all([
+      Promise.all(active.map((adapter) => this.adapterName(adapter))),
+      Promise.all(active.map((adapter) => this.read({
+        address: this.contracts.vault, abi: vaultAbi, functionName: "targetAllocationBps", args: [adapter],
+      }))),
+      Promise.all(active.map((adapter) => this.read({ address: adapter, abi: strategyAdapterAbi, functionName: "tvl" }))),
+    ]);
+
+    // Mirrors Vault.rebalance, which deploys all idle USDC (not just this deposit):
+    // each slice is clipped to the adapter's TVL cap and max % of vault.
+    const pool = idleBefore + amt;
+    let idle = 0n;
+    const adapters: AdapterHeadroom[] = active.map((adapter, i) => {
+      const info = byAddress.get(adapter.toLowerCase());
+      const allocated = (pool * BigInt(bps[i])) / 10_000n;
+      let headroom: bigint | null = null;
+      if (info && info.tvlCapUSDC > 0n) {
+        headroom = info.tvlCapUSDC > tvls[i] ? info.tvlCapUSDC - tvls[i] : 0n;
+      }
+      if (info && info.maxBpsOfVault > 0) {
+        const allowed = ((assets + amt) * BigInt(info.maxBpsOfVault)) / 10_000n;
+        const left = allowed > tvls[i] ? allowed - tvls[i] : 0n;
+        headroom = headroom === null || left < headroom ? left : headroom;
+      }
+      if (headroom !== null && allocated > headroom) idle += allocated - headroom;
+      return { adapter, name: names[i], targetBps: bps[i], allocated, headroom };
+    });
+
+    if (paused) blockers.push("PerpBond is paused; deposits are disabled for now.");
+    if (!blockers.length && amt === 0n) blockers.push("Enter an amount greater than zero.");
+    else if (amt > 0n && shares === 0n) blockers.push("Amount is too small to mint any shares.");
+    if (balance !== undefined && amt > balance) blockers.push("Amount exceeds your USDC balance.");
+
+    return { amount: amt, shares, paused, idleBefore, adapters, idleAfterRebalance: idle, blockers };
+  }
+
+  /** Resolve "auto" to the approval mode `depositUSDC` would use for the connected wallet. */
+  async getDepositMode(requested: DepositMode = "auto"): Promise<Exclude<DepositMode, "auto">> {
+    if (requested !== "auto") return requested;
+    const { wallet, account } = this.signer();
+    // Never "permit": without a permit-aware deposit it is still a separate transaction.
+    return (await supportsAtomicBatch(wallet, account)) ? "batch" : "exact";
+  }
+
+  /**
+   * Deposit `amount` USDC (human units, e.g. "100.5"); shares go to `opts.receiver`.
+   * Spending is authorised per `opts.mode` (see DepositMode); an existing allowance
+   * that already covers the amount is used as-is in every mode.
+   */
+  async depositUSDC(amount: string, opts: DepositOptions = {}): Promise<DepositResult> {
+    const { wallet, account } = this.signer();
+    const amt = parseUnits(amount, 6);
+    const mode = await this.getDepositMode(opts.mode);
+    const deposit = {
+      address: this.contracts.vault, abi: vaultAbi, functionName: "deposit", args: [amt, opts.receiver ?? account.address],
+    } as const;
+
+    // Fresh read (not batched/cached): a previous approval may have just landed.
+    const allow = await this.publicClient.readContract({
+      address: this.contracts.usdc, abi: erc20Abi, functionName: "allowance", args: [account.address, this.contracts.vault],
+    });
+    if (allow >= amt) return { ...(await this.write(deposit, opts)), mode };
+
+    const approve = (value: bigint) =>
+      ({ address: this.contracts.usdc, abi: erc20Abi, functionName: "approve", args: [this.contracts.vault, value] }) as const;
+
+    if (mode === "batch") {
+      try {
+        return { ...(await executeBatch(
+          { publicClient: this.publicClient, walletClient: wallet, account, confirmations: opts.confirmations ?? this.confirmations },
+          [approve(amt), deposit],
+        )), mode };
+      } finally {
+        this.reader.clear();
+      }
+    }
+
+    let approval: TxResult;
+    if (mode === "permit") {
+      const domain = await this.permitDomain();
+      if (!domain) throw new Error("USDC on this chain does not support EIP-2612 permits");
+      const nonce = await this.publicClient.readContract({
+        address: this.contracts.usdc, abi: erc20Abi, functionName: "nonces", args: [account.address],
+      });
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + (opts.permitTtl ?? DEFAULT_PERMIT_TTL));
+      const signature = await wallet.signTypedData({
+        account,
+        domain,
+        types: permitTypes,
+        primaryType: "Permit",
+        message: { owner: account.address, spender: this.contracts.vault, value: amt, nonce, deadline },
+      });
+      const { v, r, s } = permitSignatureParts(signature);
+      // The vault has no permit-aware deposit, so the signed permit is submitted first.
+      approval = await this.write({
+        address: this.contracts.usdc, abi: erc20Abi, functionName: "permit",
+        args: [account.address, this.contracts.vault, amt, deadline, v, r, s],
+      }, opts);
+    } else {
+      approval = await this.write(approve(mode === "infinite" ? maxUint256 : amt), opts);
+    }
+    return { ...(await this.write(deposit, opts)), mode, approvalHash: approval.hash };
+  }
+
+  /**
+   * `user`'s receipt balance and its USDC value, plus cost basis and lifetime
+   * yield rebuilt from `Deposited` / `Claimed` logs since `fromBlock`.
+   * Auto-compounded claims also emit `Deposited`; they count as yield, not principal.
+   */
+  async getPosition(user: Address, fromBlock?: bigint): Promise<Position> {
+    const receipt = await this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "receipt" });
+    const shares = await this.read({ address: receipt, abi: erc20Abi, functionName: "balanceOf", args: [user] });
+    const { distributor } = this.contracts;
+
+    const [value, deposits, claims] = await Promise.all([
+      this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "convertToAssets", args: [shares] }),
+      this.logs(fromBlock, (range) => this.publicClient.getLogs({
+        address: this.contracts.vault,
+        event: getAbiItem({ abi: vaultAbi, name: "Deposited" }),
+        args: { user },
+        ...range,
+      })),
+      distributor ? this.logs(fromBlock, (range) => this.publicClient.getLogs({
+        address: distributor,
+        event: getAbiItem({ abi: distributorAbi, name: "Claimed" }),
+        args: { user },
+        ...range,
+      })) : [],
+    ]);
+
+    let deposited = 0n, claimed = 0n, compounded = 0n;
+    for (const l of deposits) deposited += l.args.usdc ?? 0n;
+    for (const l of claims) {
+      if (l.args.autoCompounded) compounded += l.args.usdcAmount ?? 0n;
+      else claimed += l.args.usdcAmount ?? 0n;
+    }
+    deposited = deposited > compounded ? deposited - compounded : 0n;
+
+    return { shares, value, deposited, claimed, compounded };
+  }
+
+  /**
+   * Shares and yield over the next `epochs` closes with and without auto-compound,
+   * assuming the average of the last few realized epochs repeats.
+   */
+  async projectAutoCompound(user: Address, epochs = DEFAULT_PROJECTION_EPOCHS): Promise<CompoundProjection> {
+    const receipt = await this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "receipt" });
+    const [shares, assetsPerShare, page] = await Promise.all([
+      this.read({ address: receipt, abi: erc20Abi, functionName: "balanceOf", args: [user] }),
+      this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "convertToAssets", args: [10n ** 18n] }),
+      this.getEpochs({ limit: TRAILING_APY_EPOCHS + 1 }),
+    ]);
+    // The oldest row only anchors the APY window; its yield predates it.
+    const sample = page.rows.length > 1 ? page.rows.slice(0, -1) : page.rows;
+    const usdcPerShareRay = sample.length ? sample.reduce((s, r) => s + r.usdcPerShareRay, 0n) / BigInt(sample.length) : 0n;
+    return {
+      usdcPerShareRay,
+      apy: trailingApy(page.rows, assetsPerShare > 0n ? Number(formatUnits(assetsPerShare, 6)) : 1),
+      sampleEpochs: sample.length,
+      rows: projectCompounding(shares, usdcPerShareRay, assetsPerShare, epochs),
+    };
+  }
+
+  /** Claims the Distributor auto-compounded for `user`, oldest first, with the shares each minted. */
+  async getCompoundHistory(user: Address, fromBlock?: bigint): Promise<CompoundEvent[]> {
+    const [claims, deposits] = await Promise.all([
+      this.logs(fromBlock, (range) => this.publicClient.getLogs({
+        address: this.address("distributor"),
+        event: getAbiItem({ abi: distributorAbi, name: "Claimed" }),
+        args: { user },
+        ...range,
+      })),
+      this.logs(fromBlock, (range) => this.publicClient.getLogs({
+        address: this.contracts.vault,
+        event: getAbiItem({ abi: vaultAbi, name: "Deposited" }),
+        args: { user },
+        ...range,
+      })),
+    ]);
+    // An auto-compounding claim calls vault.deposit in the same transaction.
+    const minted = new Map(deposits.map((l) => [l.transactionHash, l.args.shares ?? 0n]));
+    const compounded = claims.filter((l) => l.args.autoCompounded && l.transactionHash && l.blockNumber !== null);
+
+    const times = await blockTimestamps(this.publicClient, compounded.map((l) => l.blockNumber!));
+    return compounded.map((l) => ({
+      hash: l.transactionHash!,
+      blockNumber: l.blockNumber!,
+      timestamp: times.get(l.blockNumber!) ?? 0,
+      usdc: l.args.usdcAmount ?? 0n,
+      shares: minted.get(l.transactionHash!) ?? 0n,
+    }));
+  }
+
+  /** Raw wallet USDC balance (6 decimals). */
+  getUsdcBalance(user: Address): Promise<bigint> {
+    return this.read({
+      address: this.contracts.usdc, abi: erc20Abi, functionName: "balanceOf", args: [user],
+    });
+  }
+
+  // -----------------------------------------------------------------------
+  // Distributor
+  // -----------------------------------------------------------------------
+
+  /** Raw claimable USDC (6 decimals) for the next claim only; see `getClaimStatus` for the full amount. */
+  getClaimableUSDC(user: Address): Promise<bigint> {
+    return this.read({
+      address: this.address("distributor"), abi: distributorAbi, functionName: "claimableUSDC", args: [user],
+    });
+  }
+
+  /** Closed epochs, newest first, with realized APY derived from `usdcPerShareRay`. */
+  async getEpochs(range: EpochRange = {}): Promise<EpochPage> {
+    const offset = range.offset ?? 0;
+    const limit = range.limit ?? 10;
+    const total = Number(await this.read({
+      address: this.address("distributor"), abi: distributorAbi, functionName: "epochsCount",
+    }));
+
+    const end = total - offset; // exclusive
+    if (end <= 0 || limit <= 0) return { rows: [], total, nextOffset: null };
+    const start = Math.max(0, end - limit);
+
+    // Read one extra epoch before the page so its oldest row has an elapsed time.
+    const [raw, price] = await Promise.all([
+      this.readEpochs(Math.max(0, start - 1), end, range.fromBlock),
+      this.sharePriceUsdc(),
+    ]);
+    const rows = toEpochRows(raw, price).filter((r) => r.epochId >= start).reverse();
+    return { rows, total, nextOffset: start > 0 ? total - start : null };
+  }
+
+  /**
+   * Claimable USDC across every unclaimed epoch (not just the next
+   * `MAX_EPOCHS_PER_CLAIM`), assuming the receipt balance stays as it is now.
+   */
+  async getClaimStatus(user: Address): Promise<ClaimStatus> {
+    const [last, current, cap, receipt, nextClaim] = await Promise.all([
+      this.read({ address: this.address("distributor"), abi: distributorAbi, functionName: "lastClaimedEpoch", args: [user] }),
+      this.read({ address: this.address("distributor"), abi: distributorAbi, functionName: "currentEpoch" }),
+      this.read({ address: this.address("distributor"), abi: distributorAbi, functionName: "MAX_EPOCHS_PER_CLAIM" }),
+      this.read({ address: this.contracts.vault, abi: vaultAbi, functionName: "receipt" }),
+      this.getClaimableUSDC(user),
+    ]);
+    const start = Number(last), end = Number(current), maxEpochsPerClaim = Number(cap);
+    const unclaimedEpochs = Math.max(0, end - start);
+    const shares = await this.read({ address: receipt, abi: erc20Abi, functionName: "balanceOf", args: [user] });
+    if (!unclaimedEpochs || shares === 0n) {
+      return { total: 0n, nextClaim, unclaimedEpochs, claimsNeeded: 0, maxEpochsPerClaim };
+    }
+
+    const epochs = await Promise.all(Array.from({ length: unclaimedEpochs }, (_, i) => this.read({
+      address: this.address("distributor"), abi: distributorAbi, functionName: "epochs", args: [BigInt(start + i)],
+    })));
+    const claims = splitClaims(epochs.map((e) => e[3]), shares, maxEpochsPerClaim);
+    return {
+      total: claims.reduce((s, c) => s + c, 0n),
+      nextClaim,
+      unclaimedEpochs,
+      claimsNeeded: claims.length,
+      maxEpochsPerClaim,
+    };
+  }
+
+  claimUSDC(opts?: TxOptions): Promise<TxResult> {
+    return this.write({ address: this.address("distributor"), abi: distributorAbi, functionName: "claim", args: [] }, opts);
+  }
+
+  /** Send `claim()` until every unclaimed epoch is collected, one confirmed tx at a time. */
+  async claimAll(opts: ClaimAllOptions = {}): Promise<TxResult[]> {
+    const { account } = this.signer();
+    const { claimsNeeded } = await this.getClaimStatus(account.address);
+    const results: TxResult[] = [];
+    for (let i = 0; i < claimsNeeded; i++) {
+      const result = await this.claimUSDC(opts);
+      results.push(result);
+      const event = result.events.find((e) => e.eventName === "Claimed");
+      opts.onProgress?.({
+        done: i + 1,
+        total: claimsNeeded,
+        hash: result.hash,
+        claimed: event?.eventName === "Claimed" ? event.args.usdcAmount : 0n,
+        autoCompounded: event?.eventName === "Claimed" ? event.args.autoCompounded : false,
+      });
+    }
+    return results;
+  }
+
+  // -----------------------------------------------------------------------
+  // Registry
+  // -----------------------------------------------------------------------
+
+  /** Registry entries with each adapter's live `name()`, `tvl()` and `underlyingToken()`. */
+  async getAdapters(): Promise<AdapterRow[]> {
+    const infos = await this.read({
+      address: this.contracts.registry, abi: registryAbi, functionName: "list",
+    });
+
+    // One multicall for the whole table: these reads share a tick.
+    const settle = <T,>(p: Promise<T>) => p.then(
+      (result) => ({ status: "success" as const, result }),
+      () => ({ status: "failure" as const }),
+    );
+    const [names, tvls, underlyings] = await Promise.all([
+      Promise.all(infos.map((info) => settle(this.read({ address: info.adapter, abi: strategyAdapterAbi, functionName: "name" })))),
+      Promise.all(infos.map((info) => settle(this.read({ address: info.adapter, abi: strategyAdapterAbi, functionName: "tvl" })))),
+      Promise.all(infos.map((info) => settle(this.read({ address: info.adapter, abi: strategyAdapterAbi, functionName: "underlyingToken" })))),
+    ]);
+
+    return infos.map((info, i) => {
+      const name = names[i], tvl = tvls[i], underlying = underlyings[i];
+      const tvlRaw = tvl.status === "success" ? tvl.result : 0n;
+      return {
+        name: name.status === "success" ? name.result : guessName(info.adapter),
+        cap: Number(formatUnits(info.tvlCapUSDC, 6)),
+        active: info.active,
+        tvl: Number(formatUnits(tvlRaw, 6)),
+        apy: null,
+        adapter: info.adapter,
+        underlyingToken: underlying.status === "success" ? underlying.result : zeroAddress,
+        utilisation: info.tvlCapUSDC > 0n ? Number(tvlRaw) / Number(info.tvlCapUSDC) : null,
+        maxBpsOfVault: info.maxBpsOfVault,
+        maxSlippageBpsOnSwap: info.maxSlippageBpsOnSwap,
+        oracleConfig: decodeOracleConfig(info.oracleConfig),
+      };
+    });
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal
+  // -----------------------------------------------------------------------
+
+  private derive(overrides: Partial<PerpBondClientConfig>): PerpBondClient {
+    return new PerpBondClient({
+      publicClient: this.publicClient,
+      walletClient: this.walletClient,
+      chainId: this.chainId,
+      contracts: this.contracts,
+      batch: this.reader,
+      blockNumber: this.blockNumber,
+      confirmations: this.confirmations,
+      startBlock: this.startBlock,
+      logBlockRange: this.logBlockRange,
+      ...overrides,
+    });
+  }
+
+  /** Address of an optional contract, or a clear error when this chain's deployment lacks it. */
+  private address(name: OptionalContract): Address {
+    const address = this.contracts[name];
+    if (!address) throw new Error(`${name} is not deployed on chain ${this.chainId}`);
+    return address;
+  }
+
+  /** `fromBlock`, else the deployment block; never genesis, which public RPCs can't scan. */
+  private logStart(fromBlock?: bigint): bigint {
+    const start = fromBlock ?? this.startBlock;
+    if (start === undefined) {
+      throw new Error(`no deployment block for chain ${this.chainId}: pass fromBlock or set startBlock`);
+    }
+    return start;
+  }
+
+  /** `fetch` from `logStart(fromBlock)` to the pinned (or latest) block, in `logBlockRange` windows. */
+  private async logs<T>(fromBlock: bigint | undefined, fetch: (range: BlockRange) => Promise<T[]>): Promise<T[]> {
+    const start = this.logStart(fromBlock);
+    const toBlock = this.blockNumber ?? (await this.reader.getBlockNumber());
+    return pagedLogs(start, toBlock, fetch, this.logBlockRange);
+  }
+
+  /** Batched, cached contract read at the pinned block (or latest). */
+  private read<
+    const abi extends Abi | readonly unknown[],
+    functionName extends ContractFunctionName<abi, "pure" | "view">,
+    const args extends ContractFunctionArgs<abi, "pure" | "view", functionName>,
+  >(call: ReadContractParameters<abi, functionName, args>): Promise<ReadContractReturnType<abi, functionName, args>> {
+    return this.reader.read(call, this.blockNumber);
+  }
+
+  /** Shared write pipeline (simulate, send, confirm, parse); cached reads are dropped afterwards. */
+  private async write<
+    const abi extends Abi,
+    functionName extends ContractFunctionName<abi, "nonpayable" | "payable">,
+  >(call: WriteCall<abi, functionName>, opts: TxOptions = {}): Promise<TxResult> {
+    const { wallet, account } = this.signer();
+    try {
+      return await executeWrite(
+        { publicClient: this.publicClient, walletClient: wallet, account, confirmations: opts.confirmations ?? this.confirmations },
+        call,
+      );
+    } finally {
+      this.reader.clear();
+    }
+  }
+
+  /** Adapter's own `name()`, or a short address if it doesn't answer. */
+  private async adapterName(adapter: Address): Promise<string> {
+    try {
+      return await this.read({ address: adapter, abi: strategyAdapterAbi, functionName: "name" });
+    } catch {
+      return guessName(adapter);
+    }
+  }
+
+  /** Current NAV per share in USDC; 1 before the first deposit. */
+  private async sharePriceUsdc(): Promise<number> {
+    const assets = await this.read({
+      address: this.contracts.vault, abi: vaultAbi, functionName: "convertToAssets", args: [10n ** 18n],
+    });
+    return assets > 0n ? Number(formatUnits(assets, 6)) : 1;
+  }
+
+  /**
+   * Epochs [from, to) from Distributor storage, falling back to `EpochClosed` logs when the
+   * deployed Distributor's `epochs` getter doesn't match the ABI. Transport errors are rethrown.
+   */
+  private async readEpochs(from: number, to: number, fromBlock?: bigint): Promise<RawEpoch[]> {
+    const ids = Array.from({ length: to - from }, (_, i) => from + i);
+    try {
+      const res = await Promise.all(ids.map((id) => this.read({
+        address: this.address("distributor"), abi: distributorAbi, functionName: "epochs", args: [BigInt(id)],
+      })));
+      return res.map(([timestamp, totalUsdc, totalShares, usdcPerShareRay], i) => ({
+        epochId: ids[i], timestamp: Number(timestamp), totalUsdc, totalShares, usdcPerShareRay,
+      }));
+    } catch (err) {
+      if (!isAbiMismatch(err)) throw err;
+      const logs = await this.logs(fromBlock, (range) => this.publicClient.getLogs({
+        address: this.address("distributor"),
+        event: getAbiItem({ abi: distributorAbi, name: "EpochClosed" }),
+        ...range,
+      }));
+      const inRange = logs.filter((l) => l.args.epoch !== undefined && l.args.epoch >= BigInt(from) && l.args.epoch < BigInt(to));
+
+      const blockTimes = await blockTimestamps(this.publicClient, inRange.flatMap((l) => (l.blockNumber === null ? [] : [l.blockNumber])));
+
+      return inRange.map((l) => ({
+        epochId: Number(l.args.epoch),
+        timestamp: l.blockNumber === null ? 0 : blockTimes.get(l.blockNumber) ?? 0,
+        totalUsdc: l.args.netUsdc ?? 0n,
+        totalShares: l.args.totalShares ?? 0n,
+        usdcPerShareRay: l.args.usdcPerShareRay ?? 0n,
+      })).sort((a, b) => a.epochId - b.epochId);
+    }
+  }
+
+  /** EIP-712 domain of the USDC permit, or null when the token doesn't implement EIP-2612. */
+  private async permitDomain() {
+    try {
+      const [name, version] = await Promise.all([
+        this.read({ address: this.contracts.usdc, abi: erc20Abi, functionName: "name" }),
+        this.read({ address: this.contracts.usdc, abi: erc20Abi, functionName: "version" }),
+        this.read({ address: this.contracts.usdc, abi: erc20Abi, functionName: "nonces", args: [zeroAddress] }),
+      ]);
+      return { name, version, chainId: this.chainId, verifyingContract: this.contracts.usdc };
+    } catch {
+      return null;
+    }
+  }
+
+  private signer(): { wallet: WalletClient; account: Account } {
+    const wallet = this.walletClient;
+    if (!wallet) throw new Error("wallet client required");
+    if (!wallet.account) throw new Error("wallet client has no account");
+    return { wallet, account: wallet.account };
+  }
+}
+
+/** A read that reached the contract but reverted or returned data the ABI can't decode. */
+function isAbiMismatch(err: unknown): boolean {
+  return err instanceof BaseError && !!err.walk((e) =>
+    e instanceof ContractFunctionRevertedError
+    || e instanceof ContractFunctionZeroDataError
+    || e instanceof AbiDecodingZeroDataError
+    || e instanceof AbiDecodingDataSizeTooSmallError);
+}
+
+function guessName(addr: string) {
+  // optional address map → label
+  return addr.slice(0, 6) + "…" + addr.slice(-4);
+}
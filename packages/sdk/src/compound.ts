@@ -0,0 +1,63 @@
+import type { Address, Hash, PublicClient } from "viem";
+import { hasFeature } from "./addresses";
+import { clientFor } from "./client";
+
+/** Epochs projected by default (about a quarter with weekly epochs). */
+export const DEFAULT_PROJECTION_EPOCHS = 12;
+const RAY = 10n ** 27n;
+const WAD_PER_USDC = 10n ** 12n;
+const SHARE = 10n ** 18n;
+
+export type ProjectionRow = {
+  epoch: number;             // 1 = next close
+  /** Yield paid to the wallet; shares stay flat. */
+  simple: { shares: bigint; yieldUsdc: bigint };
+  /** Each epoch's yield re-deposited at the current share price. */
+  compounded: { shares: bigint; yieldUsdc: bigint };
+};
+
+export type CompoundProjection = {
+  /** Average `usdcPerShareRay` of the recent epochs the projection assumes will repeat. */
+  usdcPerShareRay: bigint;
+  apy: number;               // trailing realized APY over the same epochs
+  sampleEpochs: number;
+  rows: ProjectionRow[];     // yields are cumulative
+};
+
+/** One claim the Distributor re-deposited for the user. */
+export type CompoundEvent = {
+  hash: Hash;
+  blockNumber: bigint;
+  timestamp: number;         // unix seconds
+  usdc: bigint;              // USDC (6dp) compounded
+  shares: bigint;            // PerpBond (18dp) minted by the matching `Deposited`
+};
+
+/**
+ * Shares and cumulative yield over `epochs` future closes, with and without
+ * auto-compound, if every epoch pays `usdcPerShareRay` and the share price
+ * (`assetsPerShare`: USDC 6dp per 1e18 shares) holds. Rounds like the contracts.
+ */
+export function projectCompounding(shares: bigint, usdcPerShareRay: bigint, assetsPerShare: bigint, epochs: number): ProjectionRow[] {
+  const price = assetsPerShare > 0n ? assetsPerShare : 10n ** 6n; // 1 USDC per share before the first deposit
+  const rows: ProjectionRow[] = [];
+  let simpleYield = 0n, compShares = shares, compYield = 0n;
+  for (let epoch = 1; epoch <= epochs; epoch++) {
+    simpleYield += (shares * usdcPerShareRay) / RAY / WAD_PER_USDC;
+    const paid = (compShares * usdcPerShareRay) / RAY / WAD_PER_USDC;
+    compYield += paid;
+    compShares += (paid * SHARE) / price;
+    rows.push({ epoch, simple: { shares, yieldUsdc: simpleYield }, compounded: { shares: compShares, yieldUsdc: compYield } });
+  }
+  return rows;
+}
+
+export async function getCompoundProjection(pub: PublicClient, chainId: number, user: Address, epochs = DEFAULT_PROJECTION_EPOCHS): Promise<CompoundProjection | null> {
+  if (!hasFeature(chainId, "autoCompound")) return null;
+  return clientFor(pub, chainId).projectAutoCompound(user, epochs);
+}
+
+export async function getCompoundHistory(pub: PublicClient, chainId: number, user: Address, fromBlock?: bigint): Promise<CompoundEvent[]> {
+  if (!hasFeature(chainId, "autoCompound")) return [];
+  return clientFor(pub, chainId).getCompoundHistory(user, fromBlock);
+}
@@ -0,0 +1,4 @@
+// Generated by packages/contracts/script/deploy.ts; do not edit.
+// One manifest per network, keyed by file name and validated when the SDK loads (see addresses.ts).
+
+export const manifests: Record<string, unknown> = {};
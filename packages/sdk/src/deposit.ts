@@ -0,0 +1,57 @@
+import {
+  compactSignatureToSignature,
+  parseCompactSignature,
+  parseSignature,
+  size,
+  type Address,
+  type Hex,
+} from "viem";
+import type { TxOptions, TxResult } from "./tx";
+
+/**
+ * How USDC spending is authorised before `vault.deposit`:
+ * - exact:    approve the exact amount and wait for it to mine
+ * - infinite: approve max uint256 once, then deposit without further approvals
+ * - permit:   sign an EIP-2612 permit, submit it as its own transaction, then deposit;
+ *             the vault has no permit-aware deposit, so this still costs two transactions
+ *             (plus a signature) and is never picked by "auto"
+ * - batch:    EIP-5792 `wallet_sendCalls`: approve + deposit in one atomic batch
+ * - auto:     batch if the wallet supports it, else exact
+ */
+export type DepositMode = "auto" | "exact" | "infinite" | "permit" | "batch";
+
+export type DepositOptions = TxOptions & {
+  mode?: DepositMode;
+  /** Receives the shares; defaults to the connected account. */
+  receiver?: Address;
+  /** Permit validity window in seconds (default 20 minutes). */
+  permitTtl?: number;
+};
+
+export type DepositResult = TxResult & {
+  /** Mode actually used (never "auto"). */
+  mode: Exclude<DepositMode, "auto">;
+  /** Separate approval/permit transaction, if one was sent. */
+  approvalHash?: `0x${string}`;
+};
+
+export const DEFAULT_PERMIT_TTL = 20 * 60;
+
+/**
+ * v/r/s for `permit(...)`. Wallets may return a yParity-style (v = 0/1) or compact
+ * EIP-2098 signature, where v is not encoded; it is then 27 + yParity.
+ */
+export function permitSignatureParts(signature: Hex): { v: number; r: Hex; s: Hex } {
+  const sig = size(signature) === 64 ? compactSignatureToSignature(parseCompactSignature(signature)) : parseSignature(signature);
+  return { v: sig.v !== undefined ? Number(sig.v) : 27 + (sig.yParity ?? 0), r: sig.r, s: sig.s };
+}
+
+export const permitTypes = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
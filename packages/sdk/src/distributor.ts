@@ -1,16 +1,64 @@
-import { formatUnits } from "viem";
-import { addresses } from "./addresses";
-import { distributorAbi } from "./abis/distributor";
-import type { Address } from "viem";
-
-export async function getClaimableUSDC(pub: any, chainId: number, user: Address): Promise<string> {
-  const a = addresses[chainId]; if (!a) return "0.00";
-  const raw = await pub.readContract({ address: a.distributor, abi: distributorAbi, functionName: "claimableUSDC", args: [user] });
-  return Number(formatUnits(raw, 6)).toFixed(2);
+import { formatUnits, type Address, type Hash, type PublicClient, type WalletClient } from "viem";
+import { hasFeature } from "./addresses";
+import { PerpBondClient, clientFor } from "./client";
+import type { TxOptions } from "./tx";
+
+/**
+ * A user's unclaimed yield across every closed epoch. `claim()` covers at most
+ * `maxEpochsPerClaim` epochs, so a dormant holder needs `claimsNeeded` transactions.
+ */
+export type ClaimStatus = {
+  total: bigint;            // USDC (6dp) over all unclaimed epochs at the current balance
+  nextClaim: bigint;        // USDC (6dp) the next `claim()` pays (= `claimableUSDC`)
+  unclaimedEpochs: number;
+  claimsNeeded: number;     // 0 when nothing is owed
+  maxEpochsPerClaim: number;
+};
+
+export type ClaimProgress = {
+  done: number;
+  total: number;
+  hash: Hash;
+  claimed: bigint;          // USDC (6dp) paid or re-deposited by this claim
+  autoCompounded: boolean;
+};
+
+export type ClaimAllOptions = TxOptions & { onProgress?: (p: ClaimProgress) => void };
+
+const RAY = 10n ** 27n;
+const WAD_PER_USDC = 10n ** 12n;
+
+/**
+ * USDC paid by each successive `claim()` for `shares` over the given per-epoch
+ * ratios (oldest first), rounded like `Distributor.claimableUSDC`. Trailing
+ * claims that would pay nothing are dropped.
+ */
+export function splitClaims(usdcPerShareRay: readonly bigint[], shares: bigint, maxEpochsPerClaim: number): bigint[] {
+  const claims: bigint[] = [];
+  for (let i = 0; i < usdcPerShareRay.length; i += maxEpochsPerClaim) {
+    const sumWad = usdcPerShareRay.slice(i, i + maxEpochsPerClaim).reduce((s, ray) => s + (shares * ray) / RAY, 0n);
+    claims.push(sumWad / WAD_PER_USDC);
+  }
+  while (claims.length && claims[claims.length - 1] === 0n) claims.pop();
+  return claims;
 }
 
-export async function claimUSDC(wallet: any, chainId: number) {
-  const a = addresses[chainId]; if (!a) throw new Error("no addresses");
-  return wallet.writeContract({ address: a.distributor, abi: distributorAbi, functionName: "claim", args: [] });
+/** Full claimable USDC across all unclaimed epochs, to 2dp. */
+export async function getClaimableUSDC(pub: PublicClient, chainId: number, user: Address): Promise<string> {
+  if (!hasFeature(chainId, "claim")) return "0.00";
+  const { total } = await clientFor(pub, chainId).getClaimStatus(user);
+  return Number(formatUnits(total, 6)).toFixed(2);
 }
 
+export async function getClaimStatus(pub: PublicClient, chainId: number, user: Address): Promise<ClaimStatus | null> {
+  if (!hasFeature(chainId, "claim")) return null;
+  return clientFor(pub, chainId).getClaimStatus(user);
+}
+
+export async function claimUSDC(wallet: WalletClient, chainId: number) {
+  return PerpBondClient.fromWallet(wallet, chainId).claimUSDC();
+}
+
+export async function claimAllUSDC(wallet: WalletClient, chainId: number, onProgress?: (p: ClaimProgress) => void) {
+  return PerpBondClient.fromWallet(wallet, chainId).claimAll({ onProgress });
+}
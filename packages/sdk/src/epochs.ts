@@ -0,0 +1,85 @@
+import type { PublicClient } from "viem";
+import { hasFeature } from "./addresses";
+import { clientFor } from "./client";
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+/** Epochs averaged for the headline (trailing) APY. */
+export const TRAILING_APY_EPOCHS = 4;
+const RAY = 10n ** 27n;
+
+/** One closed Distributor epoch, as shown in the dashboard. */
+export type EpochRow = {
+  epochId: number;
+  date: string;      // ISO date (UTC) of the close
+  usdc: number;      // net USDC distributed (after fees)
+  apy: number;       // decimal, annualized from the previous close; 0 for the first epoch
+  timestamp: number; // unix seconds
+  totalShares: bigint;
+  usdcPerShareRay: bigint;
+};
+
+/** Newest-first page of epochs: `offset` counts back from the latest epoch. */
+export type EpochRange = {
+  offset?: number;
+  limit?: number;
+  /** Start block for the `EpochClosed` log fallback. */
+  fromBlock?: bigint;
+};
+
+export type EpochPage = {
+  rows: EpochRow[];
+  total: number;
+  /** Offset of the next (older) page, or null when exhausted. */
+  nextOffset: number | null;
+};
+
+export type RawEpoch = {
+  epochId: number;
+  timestamp: number;
+  totalUsdc: bigint;
+  totalShares: bigint;
+  usdcPerShareRay: bigint;
+};
+
+/**
+ * Simple annualized yield of one epoch.
+ * `usdcPerShareRay` is USDC (scaled to 18dp) per share, in RAY; dividing by the
+ * share price (USDC per share) gives the period return.
+ */
+export function epochApy(usdcPerShareRay: bigint, elapsedSeconds: number, sharePriceUsdc = 1): number {
+  if (elapsedSeconds <= 0 || sharePriceUsdc <= 0 || usdcPerShareRay === 0n) return 0;
+  const perShare = Number((usdcPerShareRay * 10n ** 9n) / RAY) / 1e9;
+  return (perShare / sharePriceUsdc) * (SECONDS_PER_YEAR / elapsedSeconds);
+}
+
+/**
+ * Time-weighted APY over a window of epochs (any order): yield of every epoch
+ * after the oldest, annualized over the time since the oldest close.
+ */
+export function trailingApy(rows: Pick<EpochRow, "timestamp" | "usdcPerShareRay">[], sharePriceUsdc = 1): number {
+  if (rows.length < 2) return 0;
+  const asc = [...rows].sort((a, b) => a.timestamp - b.timestamp);
+  const ray = asc.slice(1).reduce((sum, r) => sum + r.usdcPerShareRay, 0n);
+  return epochApy(ray, asc[asc.length - 1].timestamp - asc[0].timestamp, sharePriceUsdc);
+}
+
+/** Turn raw epochs (ascending, contiguous ids) into dashboard rows. */
+export function toEpochRows(raw: RawEpoch[], sharePriceUsdc = 1): EpochRow[] {
+  return raw.map((e, i) => {
+    const prev = i > 0 ? raw[i - 1] : undefined;
+    return {
+      epochId: e.epochId,
+      date: new Date(e.timestamp * 1000).toISOString().slice(0, 10),
+      usdc: Number(e.totalUsdc) / 1e6,
+      apy: prev ? epochApy(e.usdcPerShareRay, e.timestamp - prev.timestamp, sharePriceUsdc) : 0,
+      timestamp: e.timestamp,
+      totalShares: e.totalShares,
+      usdcPerShareRay: e.usdcPerShareRay,
+    };
+  });
+}
+
+export async function getEpochs(pub: PublicClient, chainId: number, range: EpochRange = {}): Promise<EpochPage> {
+  if (!hasFeature(chainId, "epochs")) return { rows: [], total: 0, nextOffset: null };
+  return clientFor(pub, chainId).getEpochs(range);
+}
@@ -0,0 +1,108 @@
+import { getAddress, zeroAddress, type Address, type PublicClient } from "viem";
+import { aggregatorV3Abi, routerGuardAbi } from "./abis/routerGuard";
+import { rewardSwapperAbi, routedAdapterAbi } from "./abis/swapRoutes";
+import { erc20Abi } from "./abis/erc20";
+import { decodePath } from "./routes";
+
+export type FeedIssue = "no-feed" | "stale" | "decimals-mismatch" | "bad-answer" | "incomplete-round" | "read-failed";
+
+/** One token's RouterGuard feed, checked the way OracleLib reads it. JSON-safe (no bigints). */
+export type FeedHealth = {
+  token: Address;
+  symbol: string | null;
+  tokenDecimals: number | null;       // token.decimals()
+  aggregator: Address | null;         // null = no feed configured
+  staleAfter: number;                 // seconds; 0 = no staleness check
+  configuredDecimals: number | null;  // feed.tokenDecimals in RouterGuard
+  feedDecimals: number | null;        // aggregator.decimals()
+  answer: string | null;              // raw latest answer
+  updatedAt: number | null;           // unix seconds
+  age: number | null;                 // seconds behind the latest block
+  ok: boolean;
+  issues: FeedIssue[];
+};
+
+export type FeedReport = { guard: Address; blockNumber: string; blockTimestamp: number; feeds: FeedHealth[]; ok: boolean };
+
+/**
+ * Every token the protocol swaps through: both ends and intermediates of each
+ * adapter's deposit/exit route and each reward token's swapper path.
+ */
+export async function routeTokens(
+  pub: PublicClient,
+  sources: { adapters?: Address[]; swapper?: Address; rewardTokens?: Address[] },
+): Promise<Address[]> {
+  const tokens = new Set<string>();
+  const add = (t: Address) => tokens.add(getAddress(t));
+
+  for (const adapter of sources.adapters ?? []) {
+    const [usdc, aero, dep, exit] = await Promise.all([
+      pub.readContract({ address: adapter, abi: routedAdapterAbi, functionName: "usdc" }),
+      pub.readContract({ address: adapter, abi: routedAdapterAbi, functionName: "aero" }),
+      pub.readContract({ address: adapter, abi: routedAdapterAbi, functionName: "depositPath" }),
+      pub.readContract({ address: adapter, abi: routedAdapterAbi, functionName: "exitPath" }),
+    ]);
+    [usdc, aero, ...decodePath(dep).tokens, ...decodePath(exit).tokens].forEach(add);
+  }
+
+  if (sources.swapper) {
+    const usdc = await pub.readContract({ address: sources.swapper, abi: rewardSwapperAbi, functionName: "usdc" });
+    add(usdc);
+    for (const token of sources.rewardTokens ?? []) {
+      add(token);
+      const path = await pub.readContract({ address: sources.swapper, abi: rewardSwapperAbi, functionName: "pathFor", args: [token] });
+      decodePath(path).tokens.forEach(add);
+    }
+  }
+  return [...tokens] as Address[];
+}
+
+/** Read RouterGuard's feed for each token and flag anything `quoteMinOut` would reject or misprice. */
+export async function checkFeeds(pub: PublicClient, guard: Address, tokens: readonly Address[]): Promise<FeedReport> {
+  const block = await pub.getBlock();
+  const now = Number(block.timestamp);
+
+  const feeds = await Promise.all(tokens.map(async (token): Promise<FeedHealth> => {
+    const h: FeedHealth = {
+      token, symbol: null, tokenDecimals: null, aggregator: null, staleAfter: 0, configuredDecimals: null,
+      feedDecimals: null, answer: null, updatedAt: null, age: null, ok: false, issues: [],
+    };
+    try {
+      const [feed, symbol, decimals] = await Promise.all([
+        pub.readContract({ address: guard, abi: routerGuardAbi, functionName: "feedOf", args: [token], blockNumber: block.number }),
+        pub.readContract({ address: token, abi: erc20Abi, functionName: "symbol" }).catch(() => null),
+        pub.readContract({ address: token, abi: erc20Abi, functionName: "decimals" }).catch(() => null),
+      ]);
+      const [aggregator, staleAfter, configuredDecimals] = feed;
+      h.symbol = symbol;
+      h.tokenDecimals = decimals;
+      if (aggregator === zeroAddress) {
+        h.issues.push("no-feed");
+        return h;
+      }
+      h.aggregator = aggregator;
+      h.staleAfter = staleAfter;
+      h.configuredDecimals = configuredDecimals;
+      if (decimals !== null && decimals !== configuredDecimals) h.issues.push("decimals-mismatch");
+
+      const [round, feedDecimals] = await Promise.all([
+        pub.readContract({ address: aggregator, abi: aggregatorV3Abi, functionName: "latestRoundData", blockNumber: block.number }),
+        pub.readContract({ address: aggregator, abi: aggregatorV3Abi, functionName: "decimals" }),
+      ]);
+      const [roundId, answer, , updatedAt, answeredInRound] = round;
+      h.feedDecimals = feedDecimals;
+      h.answer = answer.toString();
+      h.updatedAt = Number(updatedAt);
+      h.age = now - Number(updatedAt);
+      if (answer <= 0n) h.issues.push("bad-answer");
+      if (answeredInRound < roundId) h.issues.push("incomplete-round");
+      if (staleAfter !== 0 && h.age > staleAfter) h.issues.push("stale");
+    } catch {
+      h.issues.push("read-failed");
+    }
+    h.ok = h.issues.length === 0;
+    return h;
+  }));
+
+  return { guard, blockNumber: block.number.toString(), blockTimestamp: now, feeds, ok: feeds.every((f) => f.ok) };
+}
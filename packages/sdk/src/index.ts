@@ -1,6 +1,20 @@
 export * from "./client";
+export * from "./reader";
+export * from "./logs";
+export * from "./tx";
 export * from "./addresses";
 export * from "./vault";
+export * from "./deposit";
 export * from "./distributor";
 export * from "./registry";
 
+export * from "./epochs";
+export * from "./routes";
+export * from "./votes";
+export * from "./allocation";
+export * from "./feeds";
+export * from "./slippage";
+export * from "./roles";
+export * from "./indexer";
+export * from "./claimAudit";
+export * from "./compound";
@@ -0,0 +1,105 @@
+import type { Address, Hash } from "viem";
+
+// Shapes served by the @perp-bond/indexer HTTP API. uint256 values are decimal strings.
+
+export const INDEXED_EVENTS = [
+  "Deposited", "AutoCompoundSet", "Rebalanced",           // vault
+  "YieldHarvested", "EpochClosed", "Claimed",              // distributor
+  "AdapterHarvested", "RewardsSwapped",                    // harvester
+  "AdapterRegistered", "AdapterUpdated", "AdapterPaused",  // registry
+] as const;
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number];
+
+export type IndexedEvent = {
+  name: IndexedEventName;
+  contract: "vault" | "distributor" | "harvester" | "registry";
+  address: Address;
+  blockNumber: number;
+  blockHash: Hash;
+  logIndex: number;
+  txHash: Hash;
+  timestamp: number; // block time, unix seconds
+  args: Record<string, string | boolean>;
+};
+
+export type IndexerStatus = {
+  chainId: number;
+  startBlock: number;
+  indexedBlock: number;
+  headBlock: number | null;
+  lastReorg: { at: number; rewoundTo: number } | null;
+};
+
+export type EventQuery = {
+  name?: IndexedEventName | IndexedEventName[];
+  user?: Address;
+  adapter?: Address;
+  epoch?: number;
+  fromBlock?: number;
+  toBlock?: number;
+  order?: "asc" | "desc";
+  limit?: number;  // default 100, max 1000
+  offset?: number;
+};
+
+export type EpochSummary = {
+  epoch: number;
+  harvestedUsdc: string; // sum of YieldHarvested for the epoch
+  netUsdc: string | null; // null while the epoch is still open
+  totalShares: string | null;
+  usdcPerShareRay: string | null;
+  closedAt: number | null;
+};
+
+export type UserActivity = {
+  user: Address;
+  deposits: IndexedEvent[];
+  claims: IndexedEvent[];
+  autoCompound: boolean | null; // null when never set
+  depositedUsdc: string;   // includes auto-compounded claims (they deposit too)
+  claimedUsdc: string;     // paid out
+  compoundedUsdc: string;  // re-deposited
+};
+
+export type AdapterActivity = {
+  adapter: Address;
+  registeredAt: number | null; // block number
+  active: boolean;
+  harvests: number;
+  estimatedUsdc: string; // sum of AdapterHarvested.estimatedUsdc
+};
+
+/** Minimal client for the indexer's HTTP/JSON API. */
+export class IndexerClient {
+  constructor(readonly baseUrl: string, private readonly fetchFn: typeof fetch = fetch) {}
+
+  status(): Promise<IndexerStatus> {
+    return this.get("/status");
+  }
+
+  events(query: EventQuery = {}): Promise<IndexedEvent[]> {
+    const params = new URLSearchParams();
+    for (const [k, v] of Object.entries(query)) {
+      if (v !== undefined) params.set(k, Array.isArray(v) ? v.join(",") : String(v));
+    }
+    return this.get(`/events?${params}`);
+  }
+
+  epochs(): Promise<EpochSummary[]> {
+    return this.get("/epochs");
+  }
+
+  user(user: Address): Promise<UserActivity> {
+    return this.get(`/users/${user}`);
+  }
+
+  adapters(): Promise<AdapterActivity[]> {
+    return this.get("/adapters");
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    const res = await this.fetchFn(new URL(path, this.baseUrl));
+    if (!res.ok) throw new Error(`indexer ${path}: HTTP ${res.status} ${await res.text()}`);
+    return (await res.json()) as T;
+  }
+}
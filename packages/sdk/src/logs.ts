@@ -0,0 +1,48 @@
+import type { PublicClient } from "viem";
+
+/** Default `eth_getLogs` window; public Base RPCs reject much wider ranges. */
+export const LOG_BLOCK_RANGE = 10_000n;
+/** Windows (or blocks) requested at once. */
+const CONCURRENCY = 4;
+
+export type BlockRange = { fromBlock: bigint; toBlock: bigint };
+
+/** Split [fromBlock, toBlock] (inclusive) into consecutive windows of at most `size` blocks. */
+export function blockRanges(fromBlock: bigint, toBlock: bigint, size = LOG_BLOCK_RANGE): BlockRange[] {
+  if (size <= 0n) throw new Error("block range size must be positive");
+  const ranges: BlockRange[] = [];
+  for (let from = fromBlock; from <= toBlock; from += size) {
+    ranges.push({ fromBlock: from, toBlock: from + size - 1n < toBlock ? from + size - 1n : toBlock });
+  }
+  return ranges;
+}
+
+/**
+ * Run `fetch` (typically a `getLogs` call) over [fromBlock, toBlock] in windows
+ * of at most `size` blocks and concatenate the results, oldest window first.
+ */
+export async function pagedLogs<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  fetch: (range: BlockRange) => Promise<T[]>,
+  size = LOG_BLOCK_RANGE,
+): Promise<T[]> {
+  const ranges = blockRanges(fromBlock, toBlock, size);
+  const out: T[] = [];
+  for (let i = 0; i < ranges.length; i += CONCURRENCY) {
+    const pages = await Promise.all(ranges.slice(i, i + CONCURRENCY).map(fetch));
+    for (const page of pages) out.push(...page);
+  }
+  return out;
+}
+
+/** Timestamp (unix seconds) of each distinct block in `blockNumbers`, fetched a few at a time. */
+export async function blockTimestamps(pub: PublicClient, blockNumbers: readonly bigint[]): Promise<Map<bigint, number>> {
+  const unique = [...new Set(blockNumbers)];
+  const times = new Map<bigint, number>();
+  for (let i = 0; i < unique.length; i += CONCURRENCY) {
+    const blocks = await Promise.all(unique.slice(i, i + CONCURRENCY).map((blockNumber) => pub.getBlock({ blockNumber })));
+    blocks.forEach((b, j) => times.set(unique[i + j], Number(b.timestamp)));
+  }
+  return times;
+}
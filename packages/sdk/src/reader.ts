@@ -0,0 +1,181 @@
+import {
+  encodeFunctionData,
+  type Abi,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ContractFunctionParameters,
+  type PublicClient,
+  type ReadContractParameters,
+  type ReadContractReturnType,
+} from "viem";
+
+export type ReaderOptions = {
+  /** ms to wait for more calls before flushing a batch (0 = same tick). */
+  wait?: number;
+  /** ms a cached result (and the latest block number) stays fresh. */
+  cacheTime?: number;
+  /** Multicall3 address when the client's chain doesn't declare one. */
+  multicallAddress?: Address;
+  /** Max calldata bytes per multicall request (0 = always one request). */
+  batchSize?: number;
+};
+
+type Pending = {
+  call: ContractFunctionParameters;
+  key: string;
+  resolve: (value: unknown) => void;
+  reject: (err: unknown) => void;
+};
+
+type Entry = { promise: Promise<unknown>; at: number };
+
+const LATEST = "latest";
+
+/**
+ * Batches every contract read issued in the same tick into one multicall3
+ * request per block, and caches results per block number for `cacheTime`.
+ * Reads without a pinned block are resolved against the latest block.
+ */
+export class Reader {
+  private readonly wait: number;
+  private readonly cacheTime: number;
+  private readonly batchSize: number;
+  private readonly multicallAddress?: Address;
+
+  private queue = new Map<string, Pending[]>(); // block key -> pending calls
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private cache = new Map<string, Entry>();
+
+  constructor(readonly publicClient: PublicClient, options: ReaderOptions = {}) {
+    this.wait = options.wait ?? 0;
+    this.cacheTime = options.cacheTime ?? 4_000;
+    this.batchSize = options.batchSize ?? 0;
+    this.multicallAddress = options.multicallAddress;
+  }
+
+  read<
+    const abi extends Abi | readonly unknown[],
+    functionName extends ContractFunctionName<abi, "pure" | "view">,
+    const args extends ContractFunctionArgs<abi, "pure" | "view", functionName>,
+  >(
+    call: ReadContractParameters<abi, functionName, args>,
+    pinned?: bigint,
+  ): Promise<ReadContractReturnType<abi, functionName, args>> {
+    const { blockNumber: own, ...rest } = call as ReadContractParameters & { blockNumber?: bigint };
+    const blockNumber = pinned ?? own;
+    const params = rest as ContractFunctionParameters;
+    const data = encodeFunctionData(params);
+    const blockKey = blockNumber === undefined ? LATEST : blockNumber.toString();
+    const key = `${params.address.toLowerCase()}:${data}`;
+
+    // Pinned reads can be served from cache directly; latest reads are keyed once the block is known.
+    if (blockKey !== LATEST) {
+      const hit = this.fresh(`${blockKey}:${key}`);
+      if (hit) return hit as Promise<ReadContractReturnType<abi, functionName, args>>;
+    }
+
+    return new Promise((resolve, reject) => {
+      const list = this.queue.get(blockKey) ?? [];
+      list.push({ call: params, key, resolve: resolve as (value: unknown) => void, reject });
+      this.queue.set(blockKey, list);
+      if (this.timer === undefined) this.timer = setTimeout(() => void this.flush(), this.wait);
+    });
+  }
+
+  /** Latest block number, shared by all reads within `cacheTime`. */
+  getBlockNumber(): Promise<bigint> {
+    return this.publicClient.getBlockNumber({ cacheTime: this.cacheTime });
+  }
+
+  /** Drop all cached results (e.g., after a write confirms). */
+  clear() {
+    this.cache.clear();
+  }
+
+  private fresh(cacheKey: string): Promise<unknown> | undefined {
+    const entry = this.cache.get(cacheKey);
+    if (!entry) return undefined;
+    if (Date.now() - entry.at > this.cacheTime) {
+      this.cache.delete(cacheKey);
+      return undefined;
+    }
+    return entry.promise;
+  }
+
+  private async flush() {
+    const groups = this.queue;
+    this.queue = new Map();
+    this.timer = undefined;
+    this.prune();
+
+    await Promise.all([...groups].map(async ([blockKey, pending]) => {
+      let blockNumber: bigint;
+      try {
+        blockNumber = blockKey === LATEST ? await this.getBlockNumber() : BigInt(blockKey);
+      } catch (err) {
+        for (const p of pending) p.reject(err);
+        return;
+      }
+
+      // Serve from cache / in-flight entries, dedupe the rest.
+      const todo = new Map<string, Pending[]>();
+      for (const p of pending) {
+        const cacheKey = `${blockNumber}:${p.key}`;
+        const hit = this.fresh(cacheKey);
+        if (hit) {
+          hit.then(p.resolve, p.reject);
+          continue;
+        }
+        const same = todo.get(cacheKey);
+        if (same) same.push(p);
+        else todo.set(cacheKey, [p]);
+      }
+      if (!todo.size) return;
+
+      const keys = [...todo.keys()];
+      const calls = keys.map((k) => todo.get(k)![0].call);
+      const request = this.multicall(calls, blockNumber);
+
+      keys.forEach((cacheKey, i) => {
+        const promise = request.then((results) => {
+          const r = results[i];
+          if (r.status === "failure") throw r.error;
+          return r.result;
+        });
+        promise.catch(() => this.cache.delete(cacheKey));
+        this.cache.set(cacheKey, { promise, at: Date.now() });
+        for (const p of todo.get(cacheKey)!) promise.then(p.resolve, p.reject);
+      });
+    }));
+  }
+
+  private async multicall(
+    contracts: ContractFunctionParameters[],
+    blockNumber: bigint,
+  ): Promise<({ status: "success"; result: unknown } | { status: "failure"; error: unknown })[]> {
+    // Chains without multicall3 (e.g., a bare local node): plain reads, still deduped and cached.
+    if (!this.multicallAddress && !this.publicClient.chain?.contracts?.multicall3) {
+      return Promise.all(contracts.map((c) =>
+        this.publicClient.readContract({ ...c, blockNumber }).then(
+          (result) => ({ status: "success" as const, result }),
+          (error: unknown) => ({ status: "failure" as const, error }),
+        ),
+      ));
+    }
+    return this.publicClient.multicall({
+      contracts,
+      allowFailure: true,
+      blockNumber,
+      batchSize: this.batchSize,
+      multicallAddress: this.multicallAddress,
+    });
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [k, entry] of this.cache) {
+      if (now - entry.at > this.cacheTime) this.cache.delete(k);
+    }
+  }
+}
@@ -1,25 +1,60 @@
-import { addresses } from "./addresses";
-import { registryAbi } from "./abis/registry";
+import { decodeAbiParameters, type Hex, type PublicClient } from "viem";
+import { hasFeature } from "./addresses";
+import { clientFor } from "./client";
 
-export type AdapterRow = { name: string; cap: number; active: boolean; tvl: number; apy: number; adapter: `0x${string}` };
+/** Registry `oracleConfig`, decoded when it holds an abi-encoded OracleLib.ChainlinkFeed. */
+export type OracleConfig =
+  | { kind: "none" }
+  | { kind: "chainlink"; aggregator: `0x${string}`; staleAfter: number; tokenDecimals: number }
+  | { kind: "raw"; data: Hex };
 
-export async function getAdapters(pub: any, chainId: number): Promise<AdapterRow[]> {
-  const a = addresses[chainId]; if (!a) return [];
-  const res = await pub.readContract({ address: a.registry, abi: registryAbi, functionName: "list" }) as any[];
+/** AdapterRegistry.AdapterInfo as returned by `list()` / `getAdapter()`. */
+export type AdapterInfo = {
+  active: boolean;
+  adapter: `0x${string}`;
+  tvlCapUSDC: bigint;        // 0 = uncapped
+  maxBpsOfVault: number;     // 0 = unlimited
+  maxSlippageBpsOnSwap: number;
+  oracleConfig: Hex;
+};
 
-  // Name/APY/TVL are placeholders until adapters expose metadata & tvl()
-  return res.map((info: any) => ({
-    name: guessName(info.adapter),
-    cap: Number(info.tvlCapUSDC) / 1e6,
-    active: info.active,
-    tvl: 0,
-    apy: 0,
-    adapter: info.adapter,
-  }));
-}
+export type AdapterRow = {
+  name: string;
+  cap: number;               // USDC; 0 = uncapped
+  active: boolean;
+  tvl: number;               // USDC, from adapter.tvl()
+  apy: number | null;       // null until adapters report yield on-chain
+  adapter: `0x${string}`;
+  underlyingToken: `0x${string}`;
+  utilisation: number | null; // tvl / cap (decimal); null when uncapped
+  maxBpsOfVault: number;
+  maxSlippageBpsOnSwap: number;
+  oracleConfig: OracleConfig;
+};
+
+const chainlinkFeedParams = [
+  { type: "tuple", components: [
+    { name: "aggregator", type: "address" },
+    { name: "staleAfter", type: "uint48" },
+    { name: "tokenDecimals", type: "uint8" },
+  ] },
+] as const;
 
-function guessName(addr: string) {
-  // optional address map → label
-  return addr.slice(0, 6) + "…" + addr.slice(-4);
+export function decodeOracleConfig(data: Hex): OracleConfig {
+  if (data === "0x") return { kind: "none" };
+  // abi.encode(ChainlinkFeed) is three static words
+  if (data.length === 2 + 3 * 64) {
+    try {
+      const [feed] = decodeAbiParameters(chainlinkFeedParams, data);
+      return { kind: "chainlink", aggregator: feed.aggregator, staleAfter: feed.staleAfter, tokenDecimals: feed.tokenDecimals };
+    } catch {
+      // fall through to raw
+    }
+  }
+  return { kind: "raw", data };
 }
 
+export async function getAdapters(pub: PublicClient, chainId: number): Promise<AdapterRow[]> {
+  if (!hasFeature(chainId, "adapters")) return [];
+  return clientFor(pub, chainId).getAdapters();
+}
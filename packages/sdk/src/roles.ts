@@ -0,0 +1,119 @@
+import { isAddressEqual, zeroAddress, type Address, type PublicClient } from "viem";
+import { accessRolesAbi } from "./abis/accessRoles";
+
+export const ROLE_NAMES = ["governor", "guardian", "keeper", "treasury"] as const;
+export type RoleName = (typeof ROLE_NAMES)[number];
+
+export type RoleTarget = { label: string; address: Address };
+
+/** AccessRoles state of one contract; `error` is set (and roles null) when it couldn't be read. */
+export type RoleHolders = RoleTarget & {
+  governor: Address | null;
+  pendingGovernor: Address | null; // null when no transfer is in flight
+  guardian: Address | null;
+  keeper: Address | null;
+  treasury: Address | null;
+  paused: boolean | null;
+  error: string | null;
+};
+
+export type RoleIssue =
+  | { kind: "mismatch"; role: RoleName; label: string; holder: Address; expected: Address }
+  | { kind: "pendingGovernor"; label: string; pending: Address }
+  | { kind: "paused"; label: string }
+  | { kind: "unreadable"; label: string; error: string };
+
+export type RolesAudit = { contracts: RoleHolders[]; issues: RoleIssue[]; ok: boolean };
+
+export type HandoverStep = RoleTarget & {
+  action: "transfer" | "accept" | "none";
+  /** Pending governor that a `transfer` will overwrite. */
+  replaces: Address | null;
+};
+
+export async function readRoles(pub: PublicClient, targets: readonly RoleTarget[]): Promise<RoleHolders[]> {
+  return Promise.all(targets.map(async (t): Promise<RoleHolders> => {
+    const read = <F extends "governor" | "pendingGovernor" | "guardian" | "keeper" | "treasury" | "paused">(functionName: F) =>
+      pub.readContract({ address: t.address, abi: accessRolesAbi, functionName });
+    try {
+      const [governor, pendingGovernor, guardian, keeper, treasury, paused] = await Promise.all([
+        read("governor"), read("pendingGovernor"), read("guardian"), read("keeper"), read("treasury"), read("paused"),
+      ]);
+      return {
+        ...t, governor, guardian, keeper, treasury, paused,
+        pendingGovernor: isAddressEqual(pendingGovernor, zeroAddress) ? null : pendingGovernor,
+        error: null,
+      };
+    } catch (err) {
+      return {
+        ...t, governor: null, pendingGovernor: null, guardian: null, keeper: null, treasury: null, paused: null,
+        error: err instanceof Error ? err.message.split("\n")[0] : String(err),
+      };
+    }
+  }));
+}
+
+// Most common holder of a role; ties go to whichever contract was listed first.
+function majority(holders: readonly RoleHolders[], role: RoleName): Address | null {
+  const counts = new Map<string, { address: Address; n: number }>();
+  for (const h of holders) {
+    const a = h[role];
+    if (!a) continue;
+    const c = counts.get(a.toLowerCase()) ?? { address: a, n: 0 };
+    c.n++;
+    counts.set(a.toLowerCase(), c);
+  }
+  let best: { address: Address; n: number } | null = null;
+  for (const c of counts.values()) if (!best || c.n > best.n) best = c;
+  return best?.address ?? null;
+}
+
+/**
+ * Flag role holders that differ across contracts, governor transfers awaiting
+ * `acceptGovernorship`, paused contracts and unreadable targets. A role is
+ * compared against `expected` when given, else against its most common holder.
+ */
+export function auditRoles(holders: readonly RoleHolders[], expected: Partial<Record<RoleName, Address>> = {}): RolesAudit {
+  const issues: RoleIssue[] = [];
+  const readable = holders.filter((h) => !h.error);
+
+  for (const role of ROLE_NAMES) {
+    const want = expected[role] ?? majority(readable, role);
+    if (!want) continue;
+    for (const h of readable) {
+      if (h[role] && !isAddressEqual(h[role], want)) {
+        issues.push({ kind: "mismatch", role, label: h.label, holder: h[role], expected: want });
+      }
+    }
+  }
+  for (const h of holders) {
+    if (h.error) issues.push({ kind: "unreadable", label: h.label, error: h.error });
+    if (h.pendingGovernor) issues.push({ kind: "pendingGovernor", label: h.label, pending: h.pendingGovernor });
+    if (h.paused) issues.push({ kind: "paused", label: h.label });
+  }
+  return { contracts: [...holders], issues, ok: issues.length === 0 };
+}
+
+export function formatRoleIssue(i: RoleIssue): string {
+  switch (i.kind) {
+    case "mismatch": return `${i.label}: ${i.role} is ${i.holder}, expected ${i.expected}`;
+    case "pendingGovernor": return `${i.label}: governor transfer to ${i.pending} awaiting acceptGovernorship`;
+    case "paused": return `${i.label}: paused`;
+    case "unreadable": return `${i.label}: could not read roles (${i.error})`;
+  }
+}
+
+/**
+ * Two-phase governor handover to `next`: the current governor calls
+ * `transferGovernorship(next)` on every `transfer` step, then `next` calls
+ * `acceptGovernorship()` on every contract — the `accept` steps plus, once
+ * mined, every former `transfer` step. Unreadable contracts are left out.
+ */
+export function planGovernorHandover(holders: readonly RoleHolders[], next: Address): HandoverStep[] {
+  return holders.filter((h) => !h.error).map((h) => {
+    const base = { label: h.label, address: h.address, replaces: null };
+    if (h.governor && isAddressEqual(h.governor, next)) return { ...base, action: "none" };
+    if (h.pendingGovernor && isAddressEqual(h.pendingGovernor, next)) return { ...base, action: "accept" };
+    return { ...base, action: "transfer", replaces: h.pendingGovernor };
+  });
+}
@@ -0,0 +1,61 @@
+import { concat, getAddress, isAddress, numberToHex, size, slice, zeroAddress, type Address, type Hex, type PublicClient } from "viem";
+import { uniV3FactoryAbi } from "./abis/univ3";
+
+/** Uniswap V3 packed path: token0 (20 bytes) | fee0 (uint24) | token1 | … | tokenN. */
+export type RoutePath = { tokens: Address[]; fees: number[] };
+
+export type RouteHop = { tokenIn: Address; tokenOut: Address; fee: number };
+
+export type HopCheck = RouteHop & { pool: Address | null };
+
+const ADDR = 20;
+const FEE = 3;
+
+export function encodePath(tokens: readonly string[], fees: readonly number[]): Hex {
+  if (tokens.length !== fees.length + 1) throw new Error("Path shape: tokens=N, fees=N-1");
+  const parts: Hex[] = [];
+  tokens.forEach((t, i) => {
+    if (!isAddress(t)) throw new Error(`bad token address ${t}`);
+    parts.push(t.toLowerCase() as Hex);
+    if (i < fees.length) {
+      if (!Number.isInteger(fees[i]) || fees[i] < 0 || fees[i] > 0xffffff) throw new Error(`bad fee ${fees[i]}`);
+      parts.push(numberToHex(fees[i], { size: FEE }));
+    }
+  });
+  return concat(parts);
+}
+
+/** Inverse of `encodePath`; "0x" decodes to an empty path (adapter falls back to its single-pool fee). */
+export function decodePath(path: Hex): RoutePath {
+  if (path === "0x") return { tokens: [], fees: [] };
+  const len = size(path);
+  if (len < 2 * ADDR + FEE || (len - ADDR) % (ADDR + FEE) !== 0) {
+    throw new Error(`not a Uniswap V3 path (${len} bytes)`);
+  }
+  const tokens: Address[] = [];
+  const fees: number[] = [];
+  for (let at = 0; ; at += ADDR + FEE) {
+    tokens.push(getAddress(slice(path, at, at + ADDR)));
+    if (at + ADDR === len) break;
+    fees.push(Number(BigInt(slice(path, at + ADDR, at + ADDR + FEE))));
+  }
+  return { tokens, fees };
+}
+
+export function pathHops({ tokens, fees }: RoutePath): RouteHop[] {
+  return fees.map((fee, i) => ({ tokenIn: tokens[i], tokenOut: tokens[i + 1], fee }));
+}
+
+/** Look up each hop's pool on the V3 factory; `pool` is null when it doesn't exist. */
+export async function checkPools(pub: PublicClient, factory: Address, route: RoutePath): Promise<HopCheck[]> {
+  const hops = pathHops(route);
+  const pools = await Promise.all(hops.map((h) => pub.readContract({
+    address: factory, abi: uniV3FactoryAbi, functionName: "getPool", args: [h.tokenIn, h.tokenOut, h.fee],
+  })));
+  return hops.map((h, i) => ({ ...h, pool: pools[i] === zeroAddress ? null : pools[i] }));
+}
+
+/** "USDC -(500)-> WETH -(3000)-> AERO", using `label` for token names. */
+export function formatPath(route: RoutePath, label: (token: Address) => string = (t) => t): string {
+  return route.tokens.map((t, i) => (i < route.fees.length ? `${label(t)} -(${route.fees[i]})-> ` : label(t))).join("");
+}
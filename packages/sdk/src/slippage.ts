@@ -0,0 +1,162 @@
+import { getAbiItem, type Address, type Hex, type PublicClient } from "viem";
+import { aggregatorV3Abi, routerGuardAbi } from "./abis/routerGuard";
+import { quoterV2Abi } from "./abis/univ3";
+import { erc20Abi } from "./abis/erc20";
+import { LOG_BLOCK_RANGE, pagedLogs } from "./logs";
+import { Reader } from "./reader";
+import { encodePath } from "./routes";
+
+export const DEFAULT_FEE_TIERS = [100, 500, 3000, 10_000] as const;
+export const DEFAULT_LADDER_USD = [100, 1_000, 10_000, 100_000] as const;
+/** QuoterV2 calls in flight at once. */
+const QUOTE_CONCURRENCY = 8;
+
+export type SlippagePair = { tokenIn: Address; tokenOut: Address; bps: number };
+
+/** One pair × trade size. Amounts are decimal strings in native token units. */
+export type MinOutRow = {
+  tokenIn: Address;
+  tokenOut: Address;
+  symbolIn: string;
+  symbolOut: string;
+  bps: number;
+  usd: number;
+  amountIn: string;
+  guardMinOut: string | null;  // RouterGuard.quoteMinOut
+  quoterOut: string | null;    // best QuoterV2 quote over the tried paths
+  path: Hex | null;
+  /** (quoterOut - guardMinOut) / guardMinOut in bps; negative = swap would fail the guard floor. */
+  marginBps: number | null;
+  rejected: boolean;
+  error: string | null;
+};
+
+/**
+ * Pairs with a non-zero `maxSlippageBps`, discovered from `MaxSlippageSet` logs and re-read at head.
+ * `fromBlock` should be the guard's deployment block; logs are scanned in `logBlockRange` windows.
+ */
+export async function slippagePairs(pub: PublicClient, guard: Address, fromBlock: bigint, logBlockRange = LOG_BLOCK_RANGE): Promise<SlippagePair[]> {
+  const reader = new Reader(pub);
+  const toBlock = await pub.getBlockNumber();
+  const logs = await pagedLogs(fromBlock, toBlock, (range) => pub.getLogs({
+    address: guard, event: getAbiItem({ abi: routerGuardAbi, name: "MaxSlippageSet" }), ...range,
+  }), logBlockRange);
+  const seen = new Map<string, { tokenIn: Address; tokenOut: Address }>();
+  for (const l of logs) {
+    if (!l.args.tokenIn || !l.args.tokenOut) continue;
+    seen.set(`${l.args.tokenIn}:${l.args.tokenOut}`.toLowerCase(), { tokenIn: l.args.tokenIn, tokenOut: l.args.tokenOut });
+  }
+  const pairs = await Promise.all([...seen.values()].map(async (p) => ({
+    ...p,
+    bps: await reader.read({ address: guard, abi: routerGuardAbi, functionName: "maxSlippageBps", args: [p.tokenIn, p.tokenOut] }, toBlock),
+  })));
+  return pairs.filter((p) => p.bps > 0);
+}
+
+async function usdPrice(reader: Reader, guard: Address, token: Address): Promise<number> {
+  const [aggregator] = await reader.read({ address: guard, abi: routerGuardAbi, functionName: "feedOf", args: [token] });
+  const [[, answer], dec] = await Promise.all([
+    reader.read({ address: aggregator, abi: aggregatorV3Abi, functionName: "latestRoundData" }),
+    reader.read({ address: aggregator, abi: aggregatorV3Abi, functionName: "decimals" }),
+  ]);
+  return Number(answer) / 10 ** dec;
+}
+
+async function quote(pub: PublicClient, quoter: Address, path: Hex, amountIn: bigint): Promise<bigint | null> {
+  try {
+    const { result } = await pub.simulateContract({ address: quoter, abi: quoterV2Abi, functionName: "quoteExactInput", args: [path, amountIn] });
+    return result[0];
+  } catch {
+    return null; // no pool / not enough liquidity on this path
+  }
+}
+
+/**
+ * Candidate paths for a pair: direct at each fee tier, plus one hop through each
+ * `via` token at every tier combination. The best quote at the smallest ladder
+ * size picks the path used for the whole ladder.
+ */
+async function bestPath(pub: PublicClient, quoter: Address, pair: SlippagePair, amountIn: bigint, via: readonly Address[], tiers: readonly number[]) {
+  const candidates: Hex[] = tiers.map((f) => encodePath([pair.tokenIn, pair.tokenOut], [f]));
+  for (const mid of via) {
+    if (mid.toLowerCase() === pair.tokenIn.toLowerCase() || mid.toLowerCase() === pair.tokenOut.toLowerCase()) continue;
+    for (const f1 of tiers) for (const f2 of tiers) candidates.push(encodePath([pair.tokenIn, mid, pair.tokenOut], [f1, f2]));
+  }
+  const quotes: { path: Hex; out: bigint | null }[] = [];
+  for (let i = 0; i < candidates.length; i += QUOTE_CONCURRENCY) {
+    const batch = candidates.slice(i, i + QUOTE_CONCURRENCY);
+    const outs = await Promise.all(batch.map((path) => quote(pub, quoter, path, amountIn)));
+    batch.forEach((path, j) => quotes.push({ path, out: outs[j] }));
+  }
+  let best: { path: Hex; out: bigint } | null = null;
+  for (const { path, out } of quotes) {
+    if (out !== null && (!best || out > best.out)) best = { path, out };
+  }
+  return best?.path ?? null;
+}
+
+/** Guard min-out vs. a real QuoterV2 quote for each pair across a USD-notional ladder. */
+export async function minOutMatrix(
+  pub: PublicClient,
+  opts: {
+    guard: Address;
+    quoter: Address;
+    pairs: readonly SlippagePair[];
+    ladderUsd?: readonly number[];
+    via?: readonly Address[];
+    feeTiers?: readonly number[];
+  },
+): Promise<MinOutRow[]> {
+  const ladder = opts.ladderUsd ?? DEFAULT_LADDER_USD;
+  const reader = new Reader(pub);
+  const rows: MinOutRow[] = [];
+
+  for (const pair of opts.pairs) {
+    const [symbolIn, symbolOut, decIn] = await Promise.all([
+      reader.read({ address: pair.tokenIn, abi: erc20Abi, functionName: "symbol" }).catch(() => pair.tokenIn),
+      reader.read({ address: pair.tokenOut, abi: erc20Abi, functionName: "symbol" }).catch(() => pair.tokenOut),
+      reader.read({ address: pair.tokenIn, abi: erc20Abi, functionName: "decimals" }),
+    ]);
+    const base = { tokenIn: pair.tokenIn, tokenOut: pair.tokenOut, symbolIn, symbolOut, bps: pair.bps };
+
+    let price: number;
+    try {
+      price = await usdPrice(reader, opts.guard, pair.tokenIn);
+    } catch {
+      for (const usd of ladder) {
+        rows.push({ ...base, usd, amountIn: "0", guardMinOut: null, quoterOut: null, path: null, marginBps: null, rejected: false, error: "no tokenIn feed" });
+      }
+      continue;
+    }
+
+    const amounts = ladder.map((usd) => BigInt(Math.floor((usd / price) * 10 ** decIn)));
+    const path = await bestPath(pub, opts.quoter, pair, amounts[0], opts.via ?? [], opts.feeTiers ?? DEFAULT_FEE_TIERS);
+
+    // Every ladder size at once: guard floors batch into one multicall, quotes run side by side.
+    rows.push(...await Promise.all(ladder.map(async (usd, i): Promise<MinOutRow> => {
+      const amountIn = amounts[i];
+      let error: string | null = null;
+      const [guardMinOut, quoterOut] = await Promise.all([
+        reader.read({
+          address: opts.guard, abi: routerGuardAbi, functionName: "quoteMinOut", args: [pair.tokenIn, pair.tokenOut, amountIn],
+        }).catch(() => {
+          error = "quoteMinOut reverted (feed missing/stale)";
+          return null;
+        }),
+        path ? quote(pub, opts.quoter, path, amountIn) : null,
+      ]);
+      if (!path) error ??= "no quotable path";
+
+      const marginBps = guardMinOut && quoterOut !== null
+        ? Number(((quoterOut - guardMinOut) * 10_000n) / guardMinOut)
+        : null;
+      return {
+        ...base, usd, amountIn: amountIn.toString(),
+        guardMinOut: guardMinOut?.toString() ?? null,
+        quoterOut: quoterOut?.toString() ?? null,
+        path, marginBps, rejected: marginBps !== null && marginBps < 0, error,
+      };
+    })));
+  }
+  return rows;
+}
@@ -0,0 +1,184 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  parseEventLogs,
+  type Abi,
+  type Account,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type Hash,
+  type Log,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+import { errorsAbi } from "./abis/errors";
+import { erc20Abi } from "./abis/erc20";
+import { vaultAbi } from "./abis/vault";
+import { distributorAbi } from "./abis/distributor";
+
+export type ContractErrorName = (typeof errorsAbi)[number]["name"];
+
+const messages: Record<ContractErrorName, string> = {
+  Unauthorized: "This account is not allowed to perform this action.",
+  ZeroAddress: "An address argument is the zero address.",
+  AlreadyInitialized: "The contract is already initialized.",
+  Paused: "PerpBond is paused; deposits, claims and settings are disabled for now.",
+  NotPaused: "The contract is not paused.",
+  InvalidAmount: "The amount is zero or outside the allowed range.",
+  CapExceeded: "This would exceed an adapter or vault capacity cap.",
+  InactiveAdapter: "The adapter is not active in the registry.",
+  AllocationSumNot10000: "Target allocations must sum to 100% (10000 bps).",
+  RouterNotAllowed: "The swap router is not whitelisted.",
+  SlippageTooHigh: "Price moved beyond the allowed slippage.",
+  OracleOutOfBounds: "The price oracle is stale, missing or out of bounds.",
+  TransferFailed: "A token transfer failed.",
+  ApproveFailed: "A token approval failed.",
+  AdapterAlreadyRegistered: "The adapter is already registered.",
+  AdapterNotRegistered: "The adapter is not registered.",
+};
+
+/**
+ * A failed PerpBond transaction. `code` is the contract's custom error name when
+ * the revert could be decoded, "Reverted" when it mined but failed, else "Unknown".
+ */
+export class PerpBondError extends Error {
+  override readonly name = "PerpBondError";
+
+  constructor(
+    readonly code: ContractErrorName | "Reverted" | "Unknown",
+    message: string,
+    readonly details: { hash?: Hash; cause?: unknown } = {},
+  ) {
+    super(message, { cause: details.cause });
+  }
+}
+
+/** Map a viem error (simulate/write) to a PerpBondError with a readable message. */
+export function decodeContractError(err: unknown): PerpBondError {
+  if (err instanceof PerpBondError) return err;
+  if (err instanceof BaseError) {
+    const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      const errorName = reverted.data?.errorName;
+      if (errorName && errorName in messages) {
+        const code = errorName as ContractErrorName;
+        return new PerpBondError(code, messages[code], { cause: err });
+      }
+      return new PerpBondError("Unknown", reverted.reason ?? reverted.shortMessage, { cause: err });
+    }
+    return new PerpBondError("Unknown", err.shortMessage, { cause: err });
+  }
+  return new PerpBondError("Unknown", err instanceof Error ? err.message : String(err), { cause: err });
+}
+
+// Every event a user-facing write can emit (Vault, Distributor, USDC).
+const eventsAbi = [...vaultAbi, ...distributorAbi, ...erc20Abi] as const;
+
+export type TxOptions = {
+  /** Blocks to wait after inclusion; defaults to the client's setting. */
+  confirmations?: number;
+};
+
+export type TxResult = {
+  hash: Hash;
+  receipt: TransactionReceipt;
+  events: ReturnType<typeof parseEventLogs<typeof eventsAbi>>;
+};
+
+export type WriteCall<
+  abi extends Abi,
+  functionName extends ContractFunctionName<abi, "nonpayable" | "payable">,
+> = {
+  address: Address;
+  abi: abi;
+  functionName: functionName;
+  args: ContractFunctionArgs<abi, "nonpayable" | "payable", functionName>;
+};
+
+/**
+ * Simulate → send → wait for `confirmations` → parse logs.
+ * Reverts (at simulation or after mining) surface as PerpBondError.
+ */
+export async function executeWrite<
+  const abi extends Abi,
+  functionName extends ContractFunctionName<abi, "nonpayable" | "payable">,
+>(
+  ctx: { publicClient: PublicClient; walletClient: WalletClient; account: Account; confirmations: number },
+  call: WriteCall<abi, functionName>,
+): Promise<TxResult> {
+  const { publicClient, walletClient, account, confirmations } = ctx;
+  const withErrors = [...call.abi, ...errorsAbi] as Abi;
+
+  let hash: Hash;
+  try {
+    const { request } = await publicClient.simulateContract({
+      address: call.address,
+      abi: withErrors,
+      functionName: call.functionName,
+      args: call.args as readonly unknown[],
+      account,
+      chain: walletClient.chain,
+    });
+    hash = await walletClient.writeContract(request);
+  } catch (err) {
+    throw decodeContractError(err);
+  }
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash, confirmations });
+  if (receipt.status === "reverted") {
+    throw new PerpBondError("Reverted", `Transaction ${hash} reverted.`, { hash });
+  }
+  return { hash, receipt, events: parseEventLogs({ abi: eventsAbi, logs: receipt.logs }) };
+}
+
+/** True when the wallet can execute EIP-5792 `wallet_sendCalls` atomically on its chain. */
+export async function supportsAtomicBatch(walletClient: WalletClient, account: Account): Promise<boolean> {
+  const chainId = walletClient.chain?.id;
+  if (chainId === undefined) return false;
+  try {
+    const caps = await walletClient.getCapabilities({ account, chainId });
+    const status = caps.atomic?.status;
+    return status === "supported" || status === "ready";
+  } catch {
+    return false; // wallet doesn't implement wallet_getCapabilities
+  }
+}
+
+/**
+ * Send `calls` as one atomic EIP-5792 batch, wait for `confirmations` on the
+ * last transaction, and parse logs across every receipt. No pre-simulation:
+ * later calls usually depend on earlier ones (approve → deposit).
+ */
+export async function executeBatch(
+  ctx: { publicClient: PublicClient; walletClient: WalletClient; account: Account; confirmations: number },
+  calls: WriteCall<Abi, string>[],
+): Promise<TxResult> {
+  const { publicClient, walletClient, account, confirmations } = ctx;
+
+  let id: string;
+  try {
+    ({ id } = await walletClient.sendCalls({
+      account,
+      chain: walletClient.chain,
+      forceAtomic: true,
+      calls: calls.map((c) => ({ to: c.address, abi: [...c.abi, ...errorsAbi], functionName: c.functionName, args: c.args })),
+    }));
+  } catch (err) {
+    throw decodeContractError(err);
+  }
+
+  const status = await walletClient.waitForCallsStatus({ id });
+  const hashes = [...new Set((status.receipts ?? []).map((r) => r.transactionHash))];
+  if (status.status !== "success" || !hashes.length) {
+    throw new PerpBondError("Reverted", `Call batch ${id} failed.`, { hash: hashes[hashes.length - 1] });
+  }
+
+  const receipts = await Promise.all(hashes.map((hash, i) =>
+    publicClient.waitForTransactionReceipt({ hash, confirmations: i === hashes.length - 1 ? confirmations : 1 }),
+  ));
+  const logs: Log[] = receipts.flatMap((r) => r.logs);
+  const last = receipts[receipts.length - 1];
+  return { hash: last.transactionHash, receipt: last, events: parseEventLogs({ abi: eventsAbi, logs }) };
+}
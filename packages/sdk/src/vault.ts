@@ -1,55 +1,71 @@
-import { parseUnits, formatUnits, type Address } from "viem";
+import type { Address, PublicClient, WalletClient } from "viem";
 import { addresses } from "./addresses";
-import { erc20Abi } from "./abis/erc20";
-import { vaultAbi } from "./abis/vault";
+import { PerpBondClient, clientFor } from "./client";
 
 export type Overview = {
   tvl: number;
-  apy: number; // decimal, e.g., 0.12 = 12%
-  allocations: { name: string; bps: number }[];
+  apy: number; // decimal, e.g., 0.12 = 12%; trailing net of fees
+  allocations: { name: string; bps: number; adapter: `0x${string}` }[];
 };
 
-export async function getOverview(pub: any, chainId: number): Promise<Overview> {
-  const a = addresses[chainId];
-  if (!a) return { tvl: 0, apy: 0, allocations: [] };
-
-  const [assets, supply] = await Promise.all([
-    pub.readContract({ address: a.vault, abi: vaultAbi, functionName: "totalAssets" }),
-    pub.readContract({ address: a.vault, abi: vaultAbi, functionName: "totalSupply" }),
-  ]);
-
-  // NOTE: apy & allocations are placeholders until policy endpoints exist
-  return {
-    tvl: Number(formatUnits(assets, 6)), // USDC 6dp
-    apy: 0,
-    allocations: [
-      { name: "veAERO", bps: 3333 },
-      { name: "vePENDLE", bps: 3333 },
-      { name: "vlCVX", bps: 3334 },
-    ],
-  };
+export type AdapterHeadroom = {
+  adapter: `0x${string}`;
+  name: string;
+  targetBps: number;
+  /** USDC (6dp) routed here at the next rebalance: this deposit plus already-idle USDC. */
+  allocated: bigint;
+  /** USDC (6dp) the adapter can still take under its TVL and % of vault caps; null = uncapped. */
+  headroom: bigint | null;
+};
+
+export type DepositPreview = {
+  amount: bigint;          // USDC, 6dp
+  shares: bigint;          // PerpBond, 18dp
+  paused: boolean;
+  /** USDC (6dp) already idle in the vault; the next rebalance deploys it with this deposit. */
+  idleBefore: bigint;
+  adapters: AdapterHeadroom[];
+  /** USDC (6dp) that caps will keep idle in the vault after the next rebalance. */
+  idleAfterRebalance: bigint;
+  /** Why the deposit would revert right now; empty when it should succeed. */
+  blockers: string[];
+};
+
+export type Position = {
+  shares: bigint;       // PerpBond receipt balance, 18dp
+  value: bigint;        // USDC (6dp) the shares convert to now
+  /** USDC the user deposited themselves (auto-compounded claims excluded). */
+  deposited: bigint;
+  /** Lifetime yield paid out in USDC. */
+  claimed: bigint;
+  /** Lifetime yield re-deposited via auto-compound. */
+  compounded: bigint;
+};
+
+export async function getOverview(pub: PublicClient, chainId: number): Promise<Overview> {
+  if (!addresses[chainId]) return { tvl: 0, apy: 0, allocations: [] };
+  return clientFor(pub, chainId).getOverview();
+}
+
+export async function getAutoCompound(pub: PublicClient, chainId: number, user: Address) {
+  if (!addresses[chainId]) return false;
+  return clientFor(pub, chainId).getAutoCompound(user);
 }
 
-export async function getAutoCompound(pub: any, chainId: number, user: Address) {
-  const a = addresses[chainId]; if (!a) return false;
-  return pub.readContract({ address: a.vault, abi: vaultAbi, functionName: "autoCompoundOf", args: [user] }) as Promise<boolean>;
+export async function setAutoCompound(wallet: WalletClient, chainId: number, on: boolean) {
+  return PerpBondClient.fromWallet(wallet, chainId).setAutoCompound(on);
 }
 
-export async function setAutoCompound(wallet: any, chainId: number, on: boolean) {
-  const a = addresses[chainId]; if (!a) throw new Error("no addresses");
-  return wallet.writeContract({ address: a.vault, abi: vaultAbi, functionName: "setAutoCompound", args: [on] });
+export async function depositUSDC(wallet: WalletClient, pub: PublicClient, chainId: number, user: Address, amountStr: string) {
+  return clientFor(pub, chainId).withWallet(wallet).depositUSDC(amountStr, { receiver: user });
 }
 
-export async function depositUSDC(wallet: any, pub: any, chainId: number, user: Address, amountStr: string) {
-  const a = addresses[chainId]; if (!a) throw new Error("no addresses");
-  const amt = parseUnits(amountStr, 6);
-
-  const [allow] = await Promise.all([
-    pub.readContract({ address: a.usdc, abi: erc20Abi, functionName: "allowance", args: [user, a.vault] }),
-  ]);
-  if (allow < amt) {
-    await wallet.writeContract({ address: a.usdc, abi: erc20Abi, functionName: "approve", args: [a.vault, amt] });
-  }
-  return wallet.writeContract({ address: a.vault, abi: vaultAbi, functionName: "deposit", args: [amt, user] });
+export async function previewDeposit(pub: PublicClient, chainId: number, amountStr: string, user?: Address) {
+  if (!addresses[chainId]) return null;
+  return clientFor(pub, chainId).previewDeposit(amountStr, user);
 }
 
+export async function getPosition(pub: PublicClient, chainId: number, user: Address, fromBlock?: bigint): Promise<Position> {
+  if (!addresses[chainId]) return { shares: 0n, value: 0n, deposited: 0n, claimed: 0n, compounded: 0n };
+  return clientFor(pub, chainId).getPosition(user, fromBlock);
+}
@@ -0,0 +1,76 @@
+import { encodeFunctionData, getAddress, isAddress, type Address, type Hex } from "viem";
+import { voterRouterAbi } from "./abis/voterRouter";
+
+/**
+ * Vote plan file: adapter → gauge → weight. A weight is either a relative number
+ * (any scale) or a percentage string like "25%"; one adapter can't mix the two.
+ */
+export type VotePlan = Record<string, Record<string, number | string>>;
+
+/** VoterRouter.VoteIntent */
+export type VoteIntent = { adapter: Address; gauges: Address[]; weights: bigint[] };
+
+/** Weights per adapter are scaled to this total (basis points). */
+export const VOTE_WEIGHT_TOTAL = 10_000n;
+
+/**
+ * Scale `raw` to integers summing exactly to `total`, distributing the rounding
+ * remainder to the largest fractional parts (ties by position).
+ */
+export function normaliseWeights(raw: readonly number[], total = VOTE_WEIGHT_TOTAL): bigint[] {
+  const sum = raw.reduce((a, b) => a + b, 0);
+  if (!(sum > 0)) throw new Error("weights must sum to more than zero");
+  const exact = raw.map((w) => (w / sum) * Number(total));
+  const out = exact.map((x) => BigInt(Math.floor(x)));
+  let left = total - out.reduce((a, b) => a + b, 0n);
+  const order = exact.map((x, i) => [x - Math.floor(x), i] as const).sort((a, b) => b[0] - a[0] || a[1] - b[1]);
+  for (let k = 0; left > 0n; k = (k + 1) % order.length, left--) out[order[k][1]]++;
+  return out;
+}
+
+function parseWeight(adapter: string, gauge: string, w: number | string): { value: number; percent: boolean } {
+  const percent = typeof w === "string" && w.trim().endsWith("%");
+  const value = typeof w === "number" ? w : Number(w.trim().replace(/%$/, ""));
+  if (!Number.isFinite(value) || value <= 0) throw new Error(`${adapter} → ${gauge}: weight must be > 0, got ${JSON.stringify(w)}`);
+  return { value, percent };
+}
+
+/** Validate and normalise a plan into `executeVotes` input, one intent per adapter. */
+export function buildVoteIntents(plan: VotePlan): VoteIntent[] {
+  return Object.entries(plan).map(([adapter, gauges]) => {
+    if (!isAddress(adapter)) throw new Error(`bad adapter address ${adapter}`);
+    const entries = Object.entries(gauges);
+    if (!entries.length) throw new Error(`${adapter}: no gauges`);
+
+    const seen = new Set<string>();
+    const parsed = entries.map(([gauge, w]) => {
+      if (!isAddress(gauge)) throw new Error(`${adapter}: bad gauge address ${gauge}`);
+      if (seen.has(gauge.toLowerCase())) throw new Error(`${adapter}: duplicate gauge ${gauge}`);
+      seen.add(gauge.toLowerCase());
+      return { gauge: getAddress(gauge), ...parseWeight(adapter, gauge, w) };
+    });
+
+    const percents = parsed.filter((p) => p.percent);
+    if (percents.length && percents.length !== parsed.length) throw new Error(`${adapter}: mix of percentages and raw weights`);
+    if (percents.length) {
+      const sum = percents.reduce((a, p) => a + p.value, 0);
+      if (Math.abs(sum - 100) > 0.01) throw new Error(`${adapter}: percentages sum to ${sum}%, expected 100%`);
+    }
+
+    return {
+      adapter: getAddress(adapter),
+      gauges: parsed.map((p) => p.gauge),
+      weights: normaliseWeights(parsed.map((p) => p.value)),
+    };
+  });
+}
+
+/** Intents whose adapter isn't in `activeAdapters` (executeVotes would revert InactiveAdapter). */
+export function inactiveVoteAdapters(intents: readonly VoteIntent[], activeAdapters: readonly string[]): Address[] {
+  const active = new Set(activeAdapters.map((a) => a.toLowerCase()));
+  return intents.filter((i) => !active.has(i.adapter.toLowerCase())).map((i) => i.adapter);
+}
+
+export function encodeExecuteVotes(intents: readonly VoteIntent[]): Hex {
+  return encodeFunctionData({ abi: voterRouterAbi, functionName: "executeVotes", args: [intents] });
+}
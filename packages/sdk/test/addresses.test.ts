@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { zeroAddress } from "viem";
+import { parseManifest } from "../src/addresses";
+
+const USDC = "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913";
+const VAULT = "0x2222222222222222222222222222222222222222";
+const REGISTRY = "0x3333333333333333333333333333333333333333";
+const ADAPTER = "0x4444444444444444444444444444444444444444";
+
+/** A minimal valid manifest, with `patch` applied on top. */
+function manifest(patch: Record<string, unknown> = {}) {
+  return {
+    network: "test",
+    chainId: 31337,
+    tokens: { usdc: USDC },
+    contracts: { vault: { address: VAULT, block: 6 }, registry: { address: REGISTRY, block: 4 } },
+    adapters: [{ name: "aerodrome", address: ADAPTER, block: 12 }],
+    ...patch,
+  };
+}
+
+describe("parseManifest", () => {
+  it("accepts a deploy-script manifest and checksums its addresses", () => {
+    const m = parseManifest(manifest());
+    expect(m.tokens.usdc).toBe("0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913");
+    expect(m.contracts.vault).toEqual({ address: VAULT, block: 6 });
+    expect(m.adapters).toEqual([{ name: "aerodrome", address: ADAPTER, block: 12 }]);
+  });
+
+  it("treats adapters as optional", () => {
+    expect(parseManifest(manifest({ adapters: undefined })).adapters).toEqual([]);
+  });
+
+  it("requires the network, a chain id and the vault and registry", () => {
+    expect(() => parseManifest(manifest({ network: "" }), "m.json")).toThrow("m.json: network is required");
+    expect(() => parseManifest(manifest({ chainId: 0 }))).toThrow("(test): chainId must be a positive integer");
+    expect(() => parseManifest(manifest({ contracts: { registry: { address: REGISTRY, block: 4 } } })))
+      .toThrow("contracts.vault is required");
+  });
+
+  it("rejects zero-address placeholders", () => {
+    expect(() => parseManifest(manifest({ tokens: { usdc: zeroAddress } }))).toThrow("tokens.usdc is the zero address");
+    expect(() => parseManifest(manifest({
+      contracts: { vault: { address: zeroAddress, block: 6 }, registry: { address: REGISTRY, block: 4 } },
+    }))).toThrow("contracts.vault.address is the zero address");
+  });
+
+  it("requires a deployment block for every contract", () => {
+    const contracts = (vault: unknown) => ({ contracts: { vault, registry: { address: REGISTRY, block: 4 } } });
+    expect(() => parseManifest(manifest(contracts({ address: VAULT })))).toThrow("contracts.vault.block must be the deployment block number");
+    expect(() => parseManifest(manifest(contracts({ address: VAULT, block: 1.5 })))).toThrow("contracts.vault.block");
+    expect(() => parseManifest(manifest(contracts({ address: VAULT, block: -1 })))).toThrow("contracts.vault.block");
+  });
+
+  it("rejects unknown contracts and usdc under contracts", () => {
+    const extra = (name: string) => manifest({
+      contracts: { ...manifest().contracts, [name]: { address: ADAPTER, block: 1 } },
+    });
+    expect(() => parseManifest(extra("oracle"))).toThrow("contracts.oracle is not a known contract");
+    expect(() => parseManifest(extra("usdc"))).toThrow("contracts.usdc is not a known contract");
+  });
+
+  it("validates adapter entries", () => {
+    expect(() => parseManifest(manifest({ adapters: {} }))).toThrow("adapters must be an array");
+    expect(() => parseManifest(manifest({ adapters: [{ address: ADAPTER, block: 1 }] }))).toThrow("adapters[0].name is required");
+    expect(() => parseManifest(manifest({ adapters: [{ name: "a", address: "0x12", block: 1 }] })))
+      .toThrow("adapters[0].address is not an address");
+  });
+});
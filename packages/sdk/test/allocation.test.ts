@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { Address, PublicClient } from "viem";
+import { planAllocation, readAllocationState, suggestTargets, type AdapterAllocState, type AllocationState } from "../src/allocation";
+
+const A = "0x000000000000000000000000000000000000000A";
+const B = "0x000000000000000000000000000000000000000b";
+const C = "0x000000000000000000000000000000000000000C";
+const VAULT = "0x0000000000000000000000000000000000000001";
+const REGISTRY = "0x0000000000000000000000000000000000000002";
+
+const usdc = (n: number) => BigInt(n) * 1_000_000n;
+
+const adapter = (over: Partial<AdapterAllocState> & { adapter: Address }): AdapterAllocState => ({
+  registered: true, active: true, tvl: 0n, tvlCapUSDC: 0n, maxBpsOfVault: 0, currentBps: 0, ...over,
+});
+
+// 1000 USDC vault, 100 idle. B has 20 USDC of cap room and 100 USDC of maxBps room.
+const state: AllocationState = {
+  totalAssets: usdc(1000),
+  idleUsdc: usdc(100),
+  adapters: [
+    adapter({ adapter: A, currentBps: 5000 }),
+    adapter({ adapter: B, tvl: usdc(400), tvlCapUSDC: usdc(420), maxBpsOfVault: 5000, currentBps: 5000 }),
+  ],
+};
+
+describe("planAllocation", () => {
+  it("projects the next rebalance from idle USDC, clipped to each adapter's room", () => {
+    const plan = planAllocation({ [A.toLowerCase()]: 5000, [B]: 5000 }, state);
+    expect(plan.errors).toEqual([]);
+    expect(plan.rows).toEqual([
+      { adapter: A, currentBps: 5000, targetBps: 5000, tvl: 0n, projectedDeploy: usdc(50), clipped: 0n },
+      { adapter: B, currentBps: 5000, targetBps: 5000, tvl: usdc(400), projectedDeploy: usdc(20), clipped: usdc(30) },
+    ]);
+    expect(plan.warnings).toEqual([`${B}: cap clips ${usdc(30)} of ${usdc(50)} USDC (6dp) at next rebalance`]);
+    expect(plan.idleAfter).toBe(usdc(30));
+  });
+
+  it("warns when a target exceeds maxBpsOfVault", () => {
+    const plan = planAllocation({ [A]: 4000, [B]: 6000 }, { ...state, adapters: [state.adapters[0], { ...state.adapters[1], tvlCapUSDC: 0n, tvl: 0n }] });
+    expect(plan.errors).toEqual([]);
+    expect(plan.warnings).toEqual([`${B}: target 6000bps exceeds maxBpsOfVault 5000`]);
+  });
+
+  it("reports targets setTargetAllocations would reject", () => {
+    const withInactive = { ...state, adapters: [...state.adapters, adapter({ adapter: C, active: false })] };
+    const plan = planAllocation({ [A]: 10_001, [C]: 0, "0x00000000000000000000000000000000000000dd": 1.5 }, withInactive);
+    expect(plan.errors).toEqual([
+      "bps must sum to 10000, got 10002.5",
+      `${A}: bps 10001 out of range`,
+      `${C}: inactive in registry`,
+      "0x00000000000000000000000000000000000000dd: not registered",
+      "0x00000000000000000000000000000000000000dd: bps 1.5 out of range",
+    ]);
+    // Active adapters left out of the targets show up at 0bps; targeted inactive ones are listed too.
+    expect(plan.rows.map((r) => [r.adapter, r.targetBps])).toEqual([[A, 10_001], [B, 0], [C, 0]]);
+  });
+});
+
+describe("suggestTargets", () => {
+  it("splits 10000bps by weight", () => {
+    expect(suggestTargets({ [A]: 1, [B]: 1, [C]: 2 })).toEqual({ [A]: 2500, [B]: 2500, [C]: 5000 });
+  });
+
+  it("caps adapters at maxBpsOfVault and hands the excess to the rest", () => {
+    expect(suggestTargets({ [A]: 1, [B]: 1, [C]: 2 }, { [C]: 4000 })).toEqual({ [A]: 3000, [B]: 3000, [C]: 4000 });
+  });
+
+  it("drops non-positive weights and rejects impossible inputs", () => {
+    expect(suggestTargets({ [A]: 0, [B]: 3 })).toEqual({ [B]: 10_000 });
+    expect(() => suggestTargets({ [A]: 0 })).toThrow("no positive weights");
+    expect(() => suggestTargets({ [A]: 1, [B]: 1 }, { [A]: 3000, [B]: 3000 })).toThrow("sum to less than 10000");
+  });
+});
+
+describe("readAllocationState", () => {
+  it("reads targeted and active adapters from the vault's registry", async () => {
+    const info = (adapter: Address, active: boolean) =>
+      ({ active, adapter, tvlCapUSDC: usdc(500), maxBpsOfVault: 4000, maxSlippageBpsOnSwap: 100, oracleConfig: "0x" });
+    const pub = {
+      readContract: async ({ address, functionName, args }: { address: Address; functionName: string; args?: [Address] }) => {
+        switch (functionName) {
+          case "registry": return REGISTRY;
+          case "totalAssets": return usdc(1000);
+          case "idleUsdc": return usdc(100);
+          case "list": return [info(A, true), info(B, false)];
+          case "targetAllocationBps": return args![0] === A ? 10_000 : 0;
+          case "tvl":
+            if (address === B) throw new Error("tvl reverted");
+            return usdc(300);
+        }
+        throw new Error(`unexpected ${functionName}`);
+      },
+    } as unknown as PublicClient;
+
+    expect(await readAllocationState(pub, VAULT, [B.toLowerCase() as Address, C])).toEqual({
+      totalAssets: usdc(1000),
+      idleUsdc: usdc(100),
+      adapters: [
+        { adapter: B, registered: true, active: false, tvl: 0n, tvlCapUSDC: usdc(500), maxBpsOfVault: 4000, currentBps: 0 },
+        { adapter: C, registered: false, active: false, tvl: 0n, tvlCapUSDC: 0n, maxBpsOfVault: 0, currentBps: 0 },
+        { adapter: A, registered: true, active: true, tvl: usdc(300), tvlCapUSDC: usdc(500), maxBpsOfVault: 4000, currentBps: 10_000 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+import { zeroAddress, type PublicClient } from "viem";
+import { auditClaims, snapshotBalances, snapshotEntitlement, type EpochCheckpoint, type ShareTransfer } from "../src/claimAudit";
+
+const ALICE = "0x000000000000000000000000000000000000a11c";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+const E18 = 10n ** 18n;
+
+const transfer = (blockNumber: bigint, logIndex: number, from: `0x${string}`, to: `0x${string}`, value: bigint): ShareTransfer =>
+  ({ blockNumber, logIndex, from, to, value });
+const close = (epoch: number, blockNumber: bigint, logIndex: number, totalShares: bigint, usdcPerShareRay = 0n): EpochCheckpoint =>
+  ({ epoch, blockNumber, logIndex, totalShares, usdcPerShareRay });
+
+describe("snapshotBalances", () => {
+  // Listed out of order on purpose; the second transfer shares a block with epoch 1's close on either side of it.
+  const transfers = [
+    transfer(3n, 3, BOB, ALICE, 40n * E18),
+    transfer(1n, 0, zeroAddress, ALICE, 100n * E18),
+    transfer(3n, 1, ALICE, BOB, 40n * E18),
+  ];
+  const checkpoints = [close(2, 4n, 0, 100n * E18), close(0, 2n, 5, 100n * E18), close(1, 3n, 2, 120n * E18)];
+
+  it("replays transfers up to each close, by block and log index", () => {
+    const snaps = snapshotBalances(transfers, checkpoints);
+    expect(snaps.map((s) => [s.epoch, Object.fromEntries(s.balances)])).toEqual([
+      [0, { [ALICE]: 100n * E18 }],
+      [1, { [ALICE]: 60n * E18, [BOB]: 40n * E18 }],
+      // BOB's emptied balance is dropped, not kept at zero.
+      [2, { [ALICE]: 100n * E18 }],
+    ]);
+  });
+
+  it("keeps the recorded total next to the rebuilt one", () => {
+    const [, e1] = snapshotBalances(transfers, checkpoints);
+    expect(e1.totalShares).toBe(120n * E18);
+    expect(e1.rebuiltShares).toBe(100n * E18);
+  });
+});
+
+describe("snapshotEntitlement", () => {
+  it("sums epochs in [from, to) at each snapshot balance", () => {
+    const snaps = snapshotBalances(
+      [transfer(1n, 0, zeroAddress, ALICE, 100n * E18), transfer(3n, 0, ALICE, BOB, 40n * E18)],
+      [close(0, 2n, 0, 100n * E18), close(1, 4n, 0, 100n * E18)],
+    );
+    // 0.01 USDC (in WAD) per share per epoch
+    const rays = new Map([[0, 10n ** 25n], [1, 10n ** 25n]]);
+    expect(snapshotEntitlement(snaps, rays, ALICE, 0, 2)).toBe(1_600_000n);
+    expect(snapshotEntitlement(snaps, rays, ALICE, 1, 2)).toBe(600_000n);
+    expect(snapshotEntitlement(snaps, rays, BOB, 0, 2)).toBe(400_000n);
+    expect(snapshotEntitlement(snaps, new Map(), ALICE, 0, 2)).toBe(0n);
+  });
+
+  it("rounds like the Distributor: WAD amounts are summed before scaling to 6 decimals", () => {
+    const snaps = snapshotBalances([transfer(1n, 0, zeroAddress, ALICE, 1n)], [close(0, 2n, 0, 1n), close(1, 3n, 0, 1n)]);
+    // Half a micro-USDC per epoch: zero each on its own, one micro-USDC together.
+    const half = 5n * 10n ** 38n;
+    expect(snapshotEntitlement(snaps, new Map([[0, half]]), ALICE, 0, 1)).toBe(0n);
+    expect(snapshotEntitlement(snaps, new Map([[0, half], [1, half]]), ALICE, 0, 2)).toBe(1n);
+  });
+});
+
+describe("auditClaims", () => {
+  const DISTRIBUTOR = "0x1111111111111111111111111111111111111111";
+  const RECEIPT = "0x2222222222222222222222222222222222222222";
+  type Call = { functionName: string; args?: readonly unknown[] };
+  type Range = { event: { name: string }; fromBlock: bigint; toBlock: bigint };
+
+  // ALICE mints 100 shares, epoch 0 closes at 0.01 USDC/share, BOB buys 40 and epoch 1 closes; ALICE claimed epoch 0.
+  const logs: Record<string, { blockNumber: bigint; logIndex: number; args: Record<string, unknown> }[]> = {
+    Transfer: [
+      { blockNumber: 1_000n, logIndex: 0, args: { from: zeroAddress, to: ALICE, value: 100n * E18 } },
+      { blockNumber: 25_000n, logIndex: 0, args: { from: ALICE, to: BOB, value: 40n * E18 } },
+    ],
+    EpochClosed: [
+      { blockNumber: 12_000n, logIndex: 0, args: { epoch: 0n, totalShares: 100n * E18, usdcPerShareRay: 10n ** 25n } },
+      { blockNumber: 30_000n, logIndex: 0, args: { epoch: 1n, totalShares: 100n * E18, usdcPerShareRay: 10n ** 25n } },
+    ],
+    Claimed: [{ blockNumber: 13_000n, logIndex: 0, args: { user: ALICE, usdcAmount: 1_000_000n } }],
+  };
+  const state: Record<string, (holder?: unknown) => bigint | string> = {
+    receipt: () => RECEIPT,
+    currentEpoch: () => 2n,
+    MAX_EPOCHS_PER_CLAIM: () => 1n,
+    balanceOf: (h) => (h === ALICE ? 60n * E18 : 40n * E18),
+    lastClaimedEpoch: (h) => (h === ALICE ? 1n : 0n),
+    // The Distributor pays on current balances: ALICE gets 0.6 for epoch 1, BOB 0.4 for epoch 0.
+    claimableUSDC: (h) => (h === ALICE ? 600_000n : 400_000n),
+  };
+
+  function fakeClient() {
+    return {
+      chain: { id: 1, contracts: { multicall3: { address: "0xca11bde05977b3631167028862be2a173976ca11" } } },
+      getBlockNumber: vi.fn(async () => 40_000n),
+      multicall: vi.fn(async ({ contracts }: { contracts: Call[]; blockNumber: bigint }) =>
+        contracts.map((c) => ({ status: "success" as const, result: state[c.functionName](c.args?.[0]) }))),
+      getLogs: vi.fn(async ({ event, fromBlock, toBlock }: Range) =>
+        logs[event.name].filter((l) => l.blockNumber >= fromBlock && l.blockNumber <= toBlock)),
+    };
+  }
+
+  it("pages every log scan from fromBlock and pins all reads to one head", async () => {
+    const pub = fakeClient();
+    await auditClaims(pub as unknown as PublicClient, DISTRIBUTOR, 500n, 10_000n);
+    const ranges = pub.getLogs.mock.calls.map(([r]) => [r.event.name, r.fromBlock, r.toBlock]);
+    for (const name of ["Transfer", "EpochClosed", "Claimed"]) {
+      expect(ranges.filter(([n]) => n === name).map(([, from, to]) => [from, to])).toEqual([
+        [500n, 10_499n], [10_500n, 20_499n], [20_500n, 30_499n], [30_500n, 40_000n],
+      ]);
+    }
+    expect(pub.multicall.mock.calls.every(([p]) => p.blockNumber === 40_000n)).toBe(true);
+    // Head reads in one multicall, then every holder's reads in one more.
+    expect(pub.multicall).toHaveBeenCalledTimes(2);
+    expect(pub.multicall.mock.calls[1][0].contracts).toHaveLength(6);
+  });
+
+  it("caps the claimable window with the on-chain MAX_EPOCHS_PER_CLAIM", async () => {
+    const report = await auditClaims(fakeClient() as unknown as PublicClient, DISTRIBUTOR, 0n);
+    expect(report.epochs).toBe(2);
+    const bob = report.holders.find((h) => h.holder === BOB)!;
+    // Only epoch 0 fits a one-epoch claim, where BOB held nothing.
+    expect(bob).toMatchObject({ fairClaimableUsdc: 0n, claimableUsdc: 400_000n, deltaUsdc: 400_000n, epochsBeyondCap: 1 });
+    const alice = report.holders.find((h) => h.holder === ALICE)!;
+    expect(alice).toMatchObject({ paidUsdc: 1_000_000n, fairPaidUsdc: 1_000_000n, fairClaimableUsdc: 600_000n, deltaUsdc: 0n });
+    expect(report.overpaidUsdc).toBe(400_000n);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PublicClient } from "viem";
+import { PerpBondClient } from "../src/client";
+import { projectCompounding } from "../src/compound";
+
+const E18 = 10n ** 18n;
+// 1 USDC per epoch for 100 shares
+const RAY = 10n ** 25n;
+
+describe("projectCompounding", () => {
+  it("pays simple yield on flat shares and re-deposits compounded yield at the share price", () => {
+    expect(projectCompounding(100n * E18, RAY, 1_000_000n, 2)).toEqual([
+      { epoch: 1, simple: { shares: 100n * E18, yieldUsdc: 1_000_000n }, compounded: { shares: 101n * E18, yieldUsdc: 1_000_000n } },
+      { epoch: 2, simple: { shares: 100n * E18, yieldUsdc: 2_000_000n }, compounded: { shares: 10_201n * E18 / 100n, yieldUsdc: 2_010_000n } },
+    ]);
+  });
+
+  it("mints fewer shares when they cost more", () => {
+    const [row] = projectCompounding(100n * E18, RAY, 2_000_000n, 1);
+    expect(row.compounded.shares).toBe(100n * E18 + E18 / 2n);
+  });
+
+  it("prices shares at 1 USDC before the first deposit and projects nothing for zero epochs", () => {
+    expect(projectCompounding(100n * E18, RAY, 0n, 2)).toEqual(projectCompounding(100n * E18, RAY, 1_000_000n, 2));
+    expect(projectCompounding(100n * E18, RAY, 1_000_000n, 0)).toEqual([]);
+  });
+});
+
+describe("getCompoundHistory", () => {
+  const USER = "0x000000000000000000000000000000000000a11c";
+  const contracts = {
+    usdc: "0x0000000000000000000000000000000000000001",
+    vault: "0x0000000000000000000000000000000000000002",
+    registry: "0x0000000000000000000000000000000000000003",
+    distributor: "0x0000000000000000000000000000000000000004",
+  } as const;
+
+  const claimed = (hash: string, blockNumber: bigint, usdcAmount: bigint, autoCompounded: boolean) =>
+    ({ transactionHash: hash, blockNumber, args: { user: USER, usdcAmount, autoCompounded } });
+  const deposited = (hash: string, blockNumber: bigint, shares: bigint) =>
+    ({ transactionHash: hash, blockNumber, args: { user: USER, usdc: 0n, shares } });
+
+  it("pages both log scans and fetches each compounding block once", async () => {
+    const claims = [claimed("0xa", 150n, 1n, true), claimed("0xb", 150n, 2n, true), claimed("0xc", 160n, 3n, false), claimed("0xd", 220n, 4n, true)];
+    const deposits = [deposited("0xa", 150n, 10n), deposited("0xb", 150n, 20n), deposited("0xd", 220n, 40n)];
+    const pub = {
+      getBlockNumber: vi.fn(async () => 250n),
+      getLogs: vi.fn(async ({ event, fromBlock, toBlock }: { event: { name: string }; fromBlock: bigint; toBlock: bigint }) =>
+        (event.name === "Claimed" ? claims : deposits).filter((l) => l.blockNumber >= fromBlock && l.blockNumber <= toBlock)),
+      getBlock: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: blockNumber * 2n })),
+    };
+    const client = new PerpBondClient({ publicClient: pub as unknown as PublicClient, chainId: 1, contracts, startBlock: 0n, logBlockRange: 100n });
+
+    expect(await client.getCompoundHistory(USER)).toEqual([
+      { hash: "0xa", blockNumber: 150n, timestamp: 300, usdc: 1n, shares: 10n },
+      { hash: "0xb", blockNumber: 150n, timestamp: 300, usdc: 2n, shares: 20n },
+      { hash: "0xd", blockNumber: 220n, timestamp: 440, usdc: 4n, shares: 40n },
+    ]);
+    expect(pub.getLogs.mock.calls.map(([p]) => [p.event.name, p.fromBlock, p.toBlock])).toEqual(expect.arrayContaining([
+      ["Claimed", 0n, 99n], ["Claimed", 100n, 199n], ["Claimed", 200n, 250n],
+      ["Deposited", 0n, 99n], ["Deposited", 100n, 199n], ["Deposited", 200n, 250n],
+    ]));
+    expect(pub.getLogs).toHaveBeenCalledTimes(6);
+    expect(pub.getBlock.mock.calls.map(([p]) => p.blockNumber).sort()).toEqual([150n, 220n]);
+  });
+
+  it("requires a deployment block", async () => {
+    const client = new PerpBondClient({ publicClient: {} as PublicClient, chainId: 1, contracts });
+    await expect(client.getCompoundHistory(USER)).rejects.toThrow("no deployment block");
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { concat, type Hex } from "viem";
+import { permitSignatureParts } from "../src/deposit";
+
+const r: Hex = `0x${"11".repeat(32)}`;
+const s: Hex = `0x${"22".repeat(32)}`;
+
+describe("permitSignatureParts", () => {
+  it("keeps a legacy v", () => {
+    expect(permitSignatureParts(concat([r, s, "0x1c"]))).toEqual({ v: 28, r, s });
+  });
+
+  it("derives v from a yParity byte", () => {
+    expect(permitSignatureParts(concat([r, s, "0x00"])).v).toBe(27);
+    expect(permitSignatureParts(concat([r, s, "0x01"])).v).toBe(28);
+  });
+
+  it("derives v from a compact EIP-2098 signature", () => {
+    // yParity 1 is stored in the top bit of s.
+    const yParityAndS: Hex = `0x${"a2"}${"22".repeat(31)}`;
+    expect(permitSignatureParts(concat([r, yParityAndS]))).toEqual({ v: 28, r, s });
+  });
+});
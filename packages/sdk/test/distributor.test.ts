@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { splitClaims } from "../src/distributor";
+
+const E18 = 10n ** 18n;
+// 0.01 USDC (in WAD) per share: 1 USDC per epoch for 100 shares.
+const CENT = 10n ** 25n;
+
+describe("splitClaims", () => {
+  it("groups epochs oldest first into claims of at most maxEpochsPerClaim", () => {
+    expect(splitClaims([CENT, CENT, CENT, CENT, CENT], 100n * E18, 2)).toEqual([2_000_000n, 2_000_000n, 1_000_000n]);
+    expect(splitClaims([CENT, 2n * CENT], 100n * E18, 50)).toEqual([3_000_000n]);
+  });
+
+  it("drops trailing empty claims but keeps empty ones in between", () => {
+    expect(splitClaims([CENT, 0n, CENT, 0n, 0n], 100n * E18, 1)).toEqual([1_000_000n, 0n, 1_000_000n]);
+    expect(splitClaims([], 100n * E18, 50)).toEqual([]);
+    expect(splitClaims([CENT], 0n, 50)).toEqual([]);
+  });
+
+  it("rounds each claim like claimableUSDC: WAD summed over its epochs, then scaled", () => {
+    const half = 5n * 10n ** 38n; // half a micro-USDC per share
+    expect(splitClaims([half, half], 1n, 2)).toEqual([1n]);
+    expect(splitClaims([half, half], 1n, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  HttpRequestError,
+  type BaseError,
+  type PublicClient,
+} from "viem";
+import { PerpBondClient } from "../src/client";
+import { distributorAbi } from "../src/abis/distributor";
+import { SECONDS_PER_YEAR, epochApy, toEpochRows, trailingApy, type RawEpoch } from "../src/epochs";
+
+const WEEK = 7 * 24 * 60 * 60;
+const RAY = 10n ** 27n;
+// 0.01 USDC per share per epoch.
+const ONE_CENT = RAY / 100n;
+
+describe("epochApy", () => {
+  it("annualizes the per-share yield over the elapsed time", () => {
+    expect(epochApy(ONE_CENT, WEEK)).toBeCloseTo(0.01 * (SECONDS_PER_YEAR / WEEK), 9);
+  });
+
+  it("divides by the share price", () => {
+    expect(epochApy(ONE_CENT, WEEK, 2)).toBeCloseTo(epochApy(ONE_CENT, WEEK) / 2, 9);
+  });
+
+  it("is 0 without elapsed time, price or yield", () => {
+    expect(epochApy(ONE_CENT, 0)).toBe(0);
+    expect(epochApy(ONE_CENT, WEEK, 0)).toBe(0);
+    expect(epochApy(0n, WEEK)).toBe(0);
+  });
+});
+
+describe("trailingApy", () => {
+  const rows = [
+    { timestamp: 2 * WEEK, usdcPerShareRay: 2n * ONE_CENT },
+    { timestamp: 0, usdcPerShareRay: 5n * ONE_CENT },
+    { timestamp: WEEK, usdcPerShareRay: ONE_CENT },
+  ];
+
+  it("skips the oldest epoch's yield and annualizes over the window", () => {
+    expect(trailingApy(rows)).toBeCloseTo(epochApy(3n * ONE_CENT, 2 * WEEK), 9);
+  });
+
+  it("is 0 with fewer than two epochs", () => {
+    expect(trailingApy([])).toBe(0);
+    expect(trailingApy(rows.slice(0, 1))).toBe(0);
+  });
+});
+
+describe("toEpochRows", () => {
+  const raw: RawEpoch[] = [
+    { epochId: 4, timestamp: 1_700_000_000, totalUsdc: 1_500_000n, totalShares: 10n ** 18n, usdcPerShareRay: ONE_CENT },
+    { epochId: 5, timestamp: 1_700_000_000 + WEEK, totalUsdc: 2_250_000n, totalShares: 10n ** 18n, usdcPerShareRay: ONE_CENT },
+  ];
+
+  it("formats amounts and dates and dates each APY from the previous close", () => {
+    const [first, second] = toEpochRows(raw);
+    expect(first).toMatchObject({ epochId: 4, date: "2023-11-14", usdc: 1.5, apy: 0 });
+    expect(second.usdc).toBe(2.25);
+    expect(second.apy).toBeCloseTo(epochApy(ONE_CENT, WEEK), 9);
+  });
+});
+
+describe("getEpochs", () => {
+  const contracts = {
+    usdc: "0x0000000000000000000000000000000000000001",
+    vault: "0x0000000000000000000000000000000000000002",
+    registry: "0x0000000000000000000000000000000000000003",
+    distributor: "0x0000000000000000000000000000000000000004",
+  } as const;
+
+  /** What `readContract` throws for `epochs(id)`, wrapped the way viem wraps a failed contract read. */
+  const failing = (cause: BaseError) => new ContractFunctionExecutionError(cause, {
+    abi: distributorAbi, functionName: "epochs", args: [0n], contractAddress: contracts.distributor,
+  });
+
+  function fakeClient(epochsError: BaseError) {
+    return {
+      readContract: vi.fn(async ({ functionName }: { functionName: string }) => {
+        switch (functionName) {
+          case "epochsCount": return 2n;
+          case "convertToAssets": return 10n ** 6n;
+          case "epochs": throw epochsError;
+          default: throw new Error(`unexpected ${functionName}`);
+        }
+      }),
+      getBlockNumber: vi.fn(async () => 50n),
+      getLogs: vi.fn(async () => [0, 1].map((epoch) => ({
+        blockNumber: 10n + BigInt(epoch),
+        args: { epoch: BigInt(epoch), netUsdc: 5_000_000n, totalShares: 10n ** 18n, usdcPerShareRay: ONE_CENT },
+      }))),
+      getBlock: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: (blockNumber - 10n) * BigInt(WEEK) })),
+    };
+  }
+
+  const client = (pub: ReturnType<typeof fakeClient>) =>
+    new PerpBondClient({ publicClient: pub as unknown as PublicClient, chainId: 1, contracts, startBlock: 0n });
+
+  it.each([
+    ["returns no data", new ContractFunctionZeroDataError({ functionName: "epochs" })],
+    ["reverts", new ContractFunctionRevertedError({ abi: distributorAbi, functionName: "epochs" })],
+  ])("falls back to EpochClosed logs when the epochs getter %s", async (_, cause) => {
+    const pub = fakeClient(failing(cause));
+    const page = await client(pub).getEpochs();
+    expect(pub.getLogs).toHaveBeenCalledOnce();
+    expect(page.rows.map((r) => [r.epochId, r.timestamp, r.usdc])).toEqual([[1, WEEK, 5], [0, 0, 5]]);
+    expect(page).toMatchObject({ total: 2, nextOffset: null });
+  });
+
+  it("rethrows transport errors instead of scanning logs", async () => {
+    const pub = fakeClient(failing(new HttpRequestError({ url: "http://rpc.invalid", status: 503 })));
+    await expect(client(pub).getEpochs()).rejects.toBeInstanceOf(ContractFunctionExecutionError);
+    expect(pub.getLogs).not.toHaveBeenCalled();
+  });
+});
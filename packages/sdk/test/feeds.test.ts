@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import { zeroAddress, type Address, type PublicClient } from "viem";
+import { checkFeeds, routeTokens } from "../src/feeds";
+import { encodePath } from "../src/routes";
+
+const GUARD = "0x1111111111111111111111111111111111111111";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const WETH = "0x4200000000000000000000000000000000000006";
+const AERO = "0x940181a94A35A4569E4529A3CDfB74e38FD98631";
+const CBBTC = "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf";
+const NOW = 10_000;
+
+type Read = { address: Address; functionName: string; args?: readonly unknown[]; blockNumber?: bigint };
+
+const token = (n: number) => `0x${n.toString(16).padStart(40, "0")}` as Address;
+const aggregatorOf = (t: Address) => `0xfeed${t.slice(6)}` as Address;
+
+/** What each test token's feed looks like; every other value is healthy (18 decimals, updated 60s ago). */
+const cases: Record<string, { feed?: false; configured?: number; answer?: bigint; roundId?: bigint; updatedAt?: number; revert?: true }> = {
+  [token(1)]: {},
+  [token(2)]: { updatedAt: NOW - 7_200 },
+  [token(3)]: { configured: 6 },
+  [token(4)]: { feed: false },
+  [token(5)]: { answer: 0n },
+  [token(6)]: { roundId: 8n },
+  [token(7)]: { revert: true },
+};
+
+function feedClient() {
+  const readContract = vi.fn(async ({ address, functionName, args }: Read) => {
+    switch (functionName) {
+      case "feedOf": {
+        const t = args![0] as Address;
+        if (cases[t].revert) throw new Error("execution reverted");
+        return cases[t].feed === false ? [zeroAddress, 0, 0] : [aggregatorOf(t), 3_600, cases[t].configured ?? 18];
+      }
+      case "symbol": return `T${Number(BigInt(address))}`;
+      case "decimals": return address.startsWith("0xfeed") ? 8 : 18;
+      case "latestRoundData": {
+        const t = Object.keys(cases).find((k) => aggregatorOf(k as Address) === address)!;
+        const r = cases[t];
+        return [r.roundId ?? 7n, r.answer ?? 2n * 10n ** 8n, 0n, BigInt(r.updatedAt ?? NOW - 60), 7n];
+      }
+      default: throw new Error(`unexpected ${functionName}`);
+    }
+  });
+  return { getBlock: vi.fn(async () => ({ number: 50n, timestamp: BigInt(NOW) })), readContract };
+}
+
+describe("checkFeeds", () => {
+  it("classifies each token the way OracleLib would read it", async () => {
+    const pub = feedClient();
+    const report = await checkFeeds(pub as unknown as PublicClient, GUARD, Object.keys(cases) as Address[]);
+    expect(report.feeds.map((f) => [f.token, f.issues])).toEqual([
+      [token(1), []],
+      [token(2), ["stale"]],
+      [token(3), ["decimals-mismatch"]],
+      [token(4), ["no-feed"]],
+      [token(5), ["bad-answer"]],
+      [token(6), ["incomplete-round"]],
+      [token(7), ["read-failed"]],
+    ]);
+    expect(report).toMatchObject({ guard: GUARD, blockNumber: "50", blockTimestamp: NOW, ok: false });
+  });
+
+  it("reports JSON-safe details for a healthy feed, read at the report's block", async () => {
+    const pub = feedClient();
+    const { feeds: [healthy], ok } = await checkFeeds(pub as unknown as PublicClient, GUARD, [token(1)]);
+    expect(ok).toBe(true);
+    expect(healthy).toEqual({
+      token: token(1), symbol: "T1", tokenDecimals: 18, aggregator: aggregatorOf(token(1)), staleAfter: 3_600, configuredDecimals: 18,
+      feedDecimals: 8, answer: "200000000", updatedAt: NOW - 60, age: 60, ok: true, issues: [],
+    });
+    expect(JSON.parse(JSON.stringify(healthy))).toEqual(healthy);
+    const pinned = pub.readContract.mock.calls.filter(([c]) => c.functionName === "feedOf" || c.functionName === "latestRoundData");
+    expect(pinned.every(([c]) => c.blockNumber === 50n)).toBe(true);
+  });
+});
+
+describe("routeTokens", () => {
+  it("collects both ends and every hop of adapter and reward-swapper routes, deduplicated and checksummed", async () => {
+    const ADAPTER = "0x00000000000000000000000000000000000000Ad";
+    const SWAPPER = "0x0000000000000000000000000000000000005a99";
+    const pub = {
+      readContract: vi.fn(async ({ address, functionName, args }: Read) => {
+        if (address === ADAPTER) {
+          return {
+            usdc: USDC.toLowerCase(),
+            aero: AERO,
+            depositPath: encodePath([USDC, WETH, AERO], [500, 3000]),
+            exitPath: encodePath([AERO, WETH, USDC], [3000, 500]),
+          }[functionName];
+        }
+        if (functionName === "usdc") return USDC;
+        return args![0] === CBBTC ? encodePath([CBBTC, WETH, USDC], [500, 500]) : encodePath([AERO, USDC], [3000]);
+      }),
+    };
+    const tokens = await routeTokens(pub as unknown as PublicClient, { adapters: [ADAPTER], swapper: SWAPPER, rewardTokens: [CBBTC, AERO] });
+    expect(tokens).toEqual([USDC, AERO, WETH, CBBTC]);
+  });
+
+  it("returns nothing without sources", async () => {
+    expect(await routeTokens({} as PublicClient, {})).toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { blockRanges, pagedLogs } from "../src/logs";
+
+describe("blockRanges", () => {
+  it("covers the range inclusively in fixed windows", () => {
+    expect(blockRanges(0n, 25n, 10n)).toEqual([
+      { fromBlock: 0n, toBlock: 9n },
+      { fromBlock: 10n, toBlock: 19n },
+      { fromBlock: 20n, toBlock: 25n },
+    ]);
+    expect(blockRanges(7n, 7n, 10n)).toEqual([{ fromBlock: 7n, toBlock: 7n }]);
+  });
+
+  it("is empty when the range is inverted and rejects empty windows", () => {
+    expect(blockRanges(10n, 9n)).toEqual([]);
+    expect(() => blockRanges(0n, 1n, 0n)).toThrow();
+  });
+});
+
+describe("pagedLogs", () => {
+  it("fetches every window and keeps the results in block order", async () => {
+    const seen: bigint[] = [];
+    const logs = await pagedLogs(100n, 149n, async ({ fromBlock, toBlock }) => {
+      seen.push(fromBlock);
+      return [fromBlock, toBlock];
+    }, 10n);
+    expect(seen.sort()).toEqual([100n, 110n, 120n, 130n, 140n]);
+    expect(logs).toEqual([100n, 109n, 110n, 119n, 120n, 129n, 130n, 139n, 140n, 149n]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PublicClient } from "viem";
+import { Reader } from "../src/reader";
+import { clientFor } from "../src/client";
+import { registerDeployment } from "../src/addresses";
+import { erc20Abi } from "../src/abis/erc20";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const ALICE = "0x000000000000000000000000000000000000a11c";
+const BOB = "0x0000000000000000000000000000000000000b0b";
+
+type Call = { args: readonly [string] };
+
+/** Public client answering balanceOf(x) with the last byte of x; `fail` holders revert. */
+function fakeClient({ multicall3 = true, fail = [] as string[] } = {}) {
+  const answer = (c: Call) => fail.includes(c.args[0])
+    ? { status: "failure" as const, error: new Error(`revert ${c.args[0]}`) }
+    : { status: "success" as const, result: BigInt(`0x${c.args[0].slice(-2)}`) };
+  return {
+    chain: multicall3 ? { id: 1, contracts: { multicall3: { address: "0xca11bde05977b3631167028862be2a173976ca11" } } } : { id: 1 },
+    getBlockNumber: vi.fn(async () => 100n),
+    multicall: vi.fn(async ({ contracts }: { contracts: Call[]; blockNumber: bigint }) => contracts.map(answer)),
+    readContract: vi.fn(async (c: Call & { blockNumber: bigint }) => {
+      const r = answer(c);
+      if (r.status === "failure") throw r.error;
+      return r.result;
+    }),
+  };
+}
+
+const balanceOf = (who: `0x${string}`) =>
+  ({ address: TOKEN, abi: erc20Abi, functionName: "balanceOf", args: [who] }) as const;
+
+describe("Reader", () => {
+  it("batches reads issued in the same tick into one multicall and dedupes repeats", async () => {
+    const pub = fakeClient();
+    const reader = new Reader(pub as unknown as PublicClient);
+    const results = await Promise.all([reader.read(balanceOf(ALICE)), reader.read(balanceOf(BOB)), reader.read(balanceOf(ALICE))]);
+    expect(results).toEqual([0x1cn, 0x0bn, 0x1cn]);
+    expect(pub.multicall).toHaveBeenCalledTimes(1);
+    expect(pub.multicall.mock.calls[0][0].contracts).toHaveLength(2);
+    expect(pub.multicall.mock.calls[0][0].blockNumber).toBe(100n);
+  });
+
+  it("serves later reads of the same block from cache until cleared", async () => {
+    const pub = fakeClient();
+    const reader = new Reader(pub as unknown as PublicClient);
+    await reader.read(balanceOf(ALICE));
+    await reader.read(balanceOf(ALICE));
+    expect(pub.multicall).toHaveBeenCalledTimes(1);
+    reader.clear();
+    await reader.read(balanceOf(ALICE));
+    expect(pub.multicall).toHaveBeenCalledTimes(2);
+  });
+
+  it("groups pinned reads per block", async () => {
+    const pub = fakeClient();
+    const reader = new Reader(pub as unknown as PublicClient);
+    await Promise.all([reader.read(balanceOf(ALICE), 5n), reader.read(balanceOf(BOB), 5n), reader.read(balanceOf(ALICE), 6n)]);
+    expect(pub.multicall.mock.calls.map(([p]) => p.blockNumber).sort()).toEqual([5n, 6n]);
+    expect(pub.getBlockNumber).not.toHaveBeenCalled();
+  });
+
+  it("rejects only the failed call in a batch and does not cache the failure", async () => {
+    const pub = fakeClient({ fail: [BOB] });
+    const reader = new Reader(pub as unknown as PublicClient);
+    const [ok, bad] = await Promise.allSettled([reader.read(balanceOf(ALICE)), reader.read(balanceOf(BOB))]);
+    expect(ok).toEqual({ status: "fulfilled", value: 0x1cn });
+    expect(bad.status).toBe("rejected");
+    await reader.read(balanceOf(BOB)).catch(() => undefined);
+    expect(pub.multicall).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to plain reads when the chain has no multicall3", async () => {
+    const pub = fakeClient({ multicall3: false });
+    const reader = new Reader(pub as unknown as PublicClient);
+    expect(await Promise.all([reader.read(balanceOf(ALICE)), reader.read(balanceOf(BOB))])).toEqual([0x1cn, 0x0bn]);
+    expect(pub.multicall).not.toHaveBeenCalled();
+    expect(pub.readContract).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("clientFor", () => {
+  const chainId = 990_001;
+  registerDeployment({
+    network: "reader-test",
+    chainId,
+    tokens: { usdc: TOKEN },
+    contracts: {
+      vault: { address: "0x2222222222222222222222222222222222222222", block: 1 },
+      registry: { address: "0x3333333333333333333333333333333333333333", block: 1 },
+    },
+    adapters: [],
+  });
+
+  it("returns one client, and so one Reader, per public client and chain", () => {
+    const pub = fakeClient() as unknown as PublicClient;
+    const a = clientFor(pub, chainId);
+    expect(clientFor(pub, chainId)).toBe(a);
+    expect(clientFor(fakeClient() as unknown as PublicClient, chainId)).not.toBe(a);
+  });
+
+  it("rebuilds the client when the chain's deployment is re-registered", () => {
+    const pub = fakeClient() as unknown as PublicClient;
+    const a = clientFor(pub, chainId);
+    registerDeployment({
+      network: "reader-test",
+      chainId,
+      tokens: { usdc: TOKEN },
+      contracts: {
+        vault: { address: "0x4444444444444444444444444444444444444444", block: 2 },
+        registry: { address: "0x3333333333333333333333333333333333333333", block: 1 },
+      },
+      adapters: [],
+    });
+    const b = clientFor(pub, chainId);
+    expect(b).not.toBe(a);
+    expect(b.contracts.vault).toBe("0x4444444444444444444444444444444444444444");
+  });
+});
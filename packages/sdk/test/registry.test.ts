@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { encodeAbiParameters } from "viem";
+import { decodeOracleConfig } from "../src/registry";
+
+const AGGREGATOR = "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70";
+
+describe("decodeOracleConfig", () => {
+  it("treats empty bytes as no oracle", () => {
+    expect(decodeOracleConfig("0x")).toEqual({ kind: "none" });
+  });
+
+  it("decodes an abi-encoded ChainlinkFeed", () => {
+    const data = encodeAbiParameters(
+      [{ type: "tuple", components: [{ type: "address" }, { type: "uint48" }, { type: "uint8" }] }],
+      [[AGGREGATOR, 86_400, 18]],
+    );
+    expect(decodeOracleConfig(data)).toEqual({ kind: "chainlink", aggregator: AGGREGATOR, staleAfter: 86_400, tokenDecimals: 18 });
+  });
+
+  it("keeps anything else as raw bytes", () => {
+    const data = encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [AGGREGATOR, 1n]);
+    expect(decodeOracleConfig(data)).toEqual({ kind: "raw", data });
+    expect(decodeOracleConfig("0x1234")).toEqual({ kind: "raw", data: "0x1234" });
+  });
+});
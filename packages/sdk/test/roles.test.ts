@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { auditRoles, formatRoleIssue, planGovernorHandover, type RoleHolders } from "../src/roles";
+
+const GOV = "0x0000000000000000000000000000000000000601";
+const NEW_GOV = "0x0000000000000000000000000000000000000602";
+const OTHER = "0x0000000000000000000000000000000000000603";
+const GUARDIAN = "0x0000000000000000000000000000000000000a01";
+const KEEPER = "0x0000000000000000000000000000000000000b01";
+const TREASURY = "0x0000000000000000000000000000000000000c01";
+
+let n = 0;
+/** A readable, unpaused contract with the usual holders, with `patch` on top. */
+const holders = (label: string, patch: Partial<RoleHolders> = {}): RoleHolders => ({
+  label,
+  address: `0x${(++n).toString(16).padStart(40, "0")}`,
+  governor: GOV, pendingGovernor: null, guardian: GUARDIAN, keeper: KEEPER, treasury: TREASURY, paused: false, error: null,
+  ...patch,
+});
+
+const unreadable = (label: string) => holders(label, {
+  governor: null, guardian: null, keeper: null, treasury: null, paused: null, error: "execution reverted",
+});
+
+describe("auditRoles", () => {
+  it("passes when every contract agrees and nothing is pending or paused", () => {
+    const audit = auditRoles([holders("vault"), holders("distributor")]);
+    expect(audit).toMatchObject({ ok: true, issues: [] });
+    expect(audit.contracts).toHaveLength(2);
+  });
+
+  it("flags holders that differ from the most common one", () => {
+    const { issues, ok } = auditRoles([holders("vault"), holders("distributor"), holders("harvester", { keeper: OTHER })]);
+    expect(ok).toBe(false);
+    expect(issues).toEqual([{ kind: "mismatch", role: "keeper", label: "harvester", holder: OTHER, expected: KEEPER }]);
+  });
+
+  it("breaks a tie in favour of the first listed contract", () => {
+    const { issues } = auditRoles([holders("vault", { keeper: OTHER }), holders("distributor")]);
+    expect(issues).toEqual([{ kind: "mismatch", role: "keeper", label: "distributor", holder: KEEPER, expected: OTHER }]);
+  });
+
+  it("compares against an expected holder instead of the majority, ignoring address case", () => {
+    const { issues } = auditRoles([holders("vault"), holders("distributor")], {
+      governor: NEW_GOV, treasury: TREASURY.toUpperCase().replace("0X", "0x") as `0x${string}`,
+    });
+    expect(issues.map((i) => i.kind === "mismatch" && [i.role, i.label])).toEqual([["governor", "vault"], ["governor", "distributor"]]);
+  });
+
+  it("reports pending governor transfers, paused and unreadable contracts, without counting the unreadable as holders", () => {
+    const { issues } = auditRoles([
+      holders("vault", { pendingGovernor: NEW_GOV }),
+      holders("distributor", { paused: true }),
+      unreadable("registry"),
+    ]);
+    expect(issues).toEqual([
+      { kind: "pendingGovernor", label: "vault", pending: NEW_GOV },
+      { kind: "paused", label: "distributor" },
+      { kind: "unreadable", label: "registry", error: "execution reverted" },
+    ]);
+    expect(issues.map(formatRoleIssue)).toEqual([
+      `vault: governor transfer to ${NEW_GOV} awaiting acceptGovernorship`,
+      "distributor: paused",
+      "registry: could not read roles (execution reverted)",
+    ]);
+  });
+
+  it("formats a mismatch with the holder and the expected address", () => {
+    expect(formatRoleIssue({ kind: "mismatch", role: "guardian", label: "vault", holder: OTHER, expected: GUARDIAN }))
+      .toBe(`vault: guardian is ${OTHER}, expected ${GUARDIAN}`);
+  });
+});
+
+describe("planGovernorHandover", () => {
+  it("plans one step per readable contract, in the order given", () => {
+    const steps = planGovernorHandover([
+      holders("vault"),
+      holders("distributor", { governor: NEW_GOV }),
+      unreadable("registry"),
+      holders("harvester", { pendingGovernor: NEW_GOV }),
+      holders("guard", { pendingGovernor: OTHER }),
+    ], NEW_GOV);
+    expect(steps.map((s) => [s.label, s.action, s.replaces])).toEqual([
+      ["vault", "transfer", null],
+      ["distributor", "none", null],
+      ["harvester", "accept", null],
+      // A transfer to someone else is in flight; sending ours overwrites it.
+      ["guard", "transfer", OTHER],
+    ]);
+  });
+
+  it("matches the new governor regardless of address case", () => {
+    const [step] = planGovernorHandover([holders("vault", { pendingGovernor: NEW_GOV })], NEW_GOV.toUpperCase().replace("0X", "0x") as `0x${string}`);
+    expect(step.action).toBe("accept");
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { decodePath, encodePath, formatPath, pathHops } from "../src/routes";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const WETH = "0x4200000000000000000000000000000000000006";
+const AERO = "0x940181a94A35A4569E4529A3CDfB74e38FD98631";
+
+describe("encodePath / decodePath", () => {
+  it("packs tokens and uint24 fees and decodes them back", () => {
+    const path = encodePath([USDC, WETH, AERO], [500, 3000]);
+    expect(path).toBe(`0x${USDC.slice(2).toLowerCase()}0001f4${WETH.slice(2)}000bb8${AERO.slice(2).toLowerCase()}`);
+    expect(decodePath(path)).toEqual({ tokens: [USDC, WETH, AERO], fees: [500, 3000] });
+  });
+
+  it("decodes the empty path", () => {
+    expect(decodePath("0x")).toEqual({ tokens: [], fees: [] });
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => encodePath([USDC, WETH], [])).toThrow("Path shape");
+    expect(() => encodePath([USDC, "0x1234"], [500])).toThrow("bad token address");
+    expect(() => encodePath([USDC, WETH], [0x1000000])).toThrow("bad fee");
+    expect(() => decodePath(encodePath([USDC, WETH], [500]).slice(0, -2) as `0x${string}`)).toThrow("not a Uniswap V3 path");
+    expect(() => decodePath(USDC)).toThrow("not a Uniswap V3 path");
+  });
+
+  it("splits a route into hops and formats it", () => {
+    const route = decodePath(encodePath([USDC, WETH, AERO], [500, 3000]));
+    expect(pathHops(route)).toEqual([
+      { tokenIn: USDC, tokenOut: WETH, fee: 500 },
+      { tokenIn: WETH, tokenOut: AERO, fee: 3000 },
+    ]);
+    const names: Record<string, string> = { [USDC]: "USDC", [WETH]: "WETH", [AERO]: "AERO" };
+    expect(formatPath(route, (t) => names[t])).toBe("USDC -(500)-> WETH -(3000)-> AERO");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Hex, PublicClient } from "viem";
+import { minOutMatrix, slippagePairs } from "../src/slippage";
+import { decodePath, encodePath } from "../src/routes";
+
+const GUARD = "0x1111111111111111111111111111111111111111";
+const QUOTER = "0x2222222222222222222222222222222222222222";
+const FEED = "0x3333333333333333333333333333333333333333";
+const AERO = "0x940181a94A35A4569E4529A3CDfB74e38FD98631";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const WETH = "0x4200000000000000000000000000000000000006";
+const E18 = 10n ** 18n;
+
+type Read = { address: string; functionName: string; args?: readonly unknown[] };
+
+/**
+ * AERO at $2 (8-decimal feed). The guard floor is 98% of the oracle value; QuoterV2 pays 99% of it
+ * direct at 0.3%, 99.5% through WETH, and slips another 2% from 100 AERO up.
+ */
+function fakeClient({ feed = true, quotable = true, floor = true } = {}) {
+  const fair = (amountIn: bigint) => (amountIn * 2n) / 10n ** 12n;
+  const read = vi.fn(async ({ address, functionName, args }: Read) => {
+    switch (functionName) {
+      case "symbol": return address === AERO ? "AERO" : "USDC";
+      case "decimals": return address === FEED ? 8 : address === AERO ? 18 : 6;
+      case "feedOf":
+        if (!feed) throw new Error("no feed");
+        return [FEED, 3600, 18];
+      case "latestRoundData": return [1n, 2n * 10n ** 8n, 0n, 0n, 1n];
+      case "quoteMinOut":
+        if (!floor) throw new Error("stale");
+        return (fair(args![2] as bigint) * 98n) / 100n;
+      default: throw new Error(`unexpected ${functionName}`);
+    }
+  });
+  const simulateContract = vi.fn(async ({ args: [path, amountIn] }: { args: [Hex, bigint] }) => {
+    const { tokens, fees } = decodePath(path);
+    const direct = tokens.length === 2 && fees[0] === 3000;
+    const viaWeth = tokens.length === 3 && tokens[1] === WETH && fees[0] === 3000 && fees[1] === 500;
+    if (!quotable || (!direct && !viaWeth)) throw new Error("no pool");
+    const perMille = (direct ? 990n : 995n) - (amountIn >= 100n * E18 ? 20n : 0n);
+    return { result: [(fair(amountIn) * perMille) / 1000n, [], [], 0n] };
+  });
+  return { chain: { id: 1 }, getBlockNumber: vi.fn(async () => 100n), readContract: read, simulateContract };
+}
+
+const pair = { tokenIn: AERO, tokenOut: USDC, bps: 200 } as const;
+
+describe("minOutMatrix", () => {
+  it("sizes the ladder from the feed price and token decimals and picks the best path at the smallest size", async () => {
+    const pub = fakeClient();
+    const rows = await minOutMatrix(pub as unknown as PublicClient, {
+      guard: GUARD, quoter: QUOTER, pairs: [pair], ladderUsd: [100, 1_000], via: [WETH], feeTiers: [500, 3000],
+    });
+    expect(rows.map((r) => [r.usd, r.amountIn])).toEqual([[100, (50n * E18).toString()], [1_000, (500n * E18).toString()]]);
+    expect(rows[0]).toMatchObject({ symbolIn: "AERO", symbolOut: "USDC", bps: 200, path: encodePath([AERO, WETH, USDC], [3000, 500]) });
+    // 2 direct + 4 two-hop candidates at the first size, then one quote per size on the chosen path.
+    expect(pub.simulateContract).toHaveBeenCalledTimes(6 + 2);
+  });
+
+  it("compares the guard floor with the quote and flags sizes the floor would reject", async () => {
+    const rows = await minOutMatrix(fakeClient() as unknown as PublicClient, {
+      guard: GUARD, quoter: QUOTER, pairs: [pair], ladderUsd: [100, 1_000], via: [WETH],
+    });
+    expect(rows[0]).toMatchObject({ guardMinOut: "98000000", quoterOut: "99500000", marginBps: 153, rejected: false, error: null });
+    // 2% price impact at $1000 puts the quote under the 98% floor.
+    expect(rows[1]).toMatchObject({ guardMinOut: "980000000", quoterOut: "975000000", marginBps: -51, rejected: true });
+  });
+
+  it("reports every size without a feed instead of quoting", async () => {
+    const pub = fakeClient({ feed: false });
+    const rows = await minOutMatrix(pub as unknown as PublicClient, { guard: GUARD, quoter: QUOTER, pairs: [pair], ladderUsd: [100, 1_000] });
+    expect(rows.map((r) => r.error)).toEqual(["no tokenIn feed", "no tokenIn feed"]);
+    expect(pub.simulateContract).not.toHaveBeenCalled();
+  });
+
+  it("keeps the row when there is no path or the guard floor reverts, without flagging a rejection", async () => {
+    const [noPath] = await minOutMatrix(fakeClient({ quotable: false }) as unknown as PublicClient, {
+      guard: GUARD, quoter: QUOTER, pairs: [pair], ladderUsd: [100],
+    });
+    expect(noPath).toMatchObject({ path: null, quoterOut: null, guardMinOut: "98000000", rejected: false, error: "no quotable path" });
+    const [noFloor] = await minOutMatrix(fakeClient({ floor: false }) as unknown as PublicClient, {
+      guard: GUARD, quoter: QUOTER, pairs: [pair], ladderUsd: [100], feeTiers: [3000],
+    });
+    expect(noFloor).toMatchObject({ guardMinOut: null, marginBps: null, rejected: false, error: "quoteMinOut reverted (feed missing/stale)" });
+  });
+});
+
+describe("slippagePairs", () => {
+  it("pages the MaxSlippageSet scan from fromBlock and keeps pairs whose bps is still set", async () => {
+    const logs = [
+      { blockNumber: 120n, args: { tokenIn: AERO, tokenOut: USDC, bps: 100 } },
+      { blockNumber: 150n, args: { tokenIn: USDC, tokenOut: AERO, bps: 100 } },
+      { blockNumber: 160n, args: { tokenIn: AERO, tokenOut: USDC, bps: 200 } },
+    ];
+    const pub = {
+      chain: { id: 1 },
+      getBlockNumber: vi.fn(async () => 175n),
+      getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+        logs.filter((l) => l.blockNumber >= fromBlock && l.blockNumber <= toBlock)),
+      // USDC→AERO was later reset to 0.
+      readContract: vi.fn(async ({ args }: Read) => (args![0] === AERO ? 200 : 0)),
+    };
+    const pairs = await slippagePairs(pub as unknown as PublicClient, GUARD, 100n, 50n);
+    expect(pub.getLogs.mock.calls.map(([r]) => [r.fromBlock, r.toBlock])).toEqual([[100n, 149n], [150n, 175n]]);
+    expect(pairs).toEqual([{ tokenIn: AERO, tokenOut: USDC, bps: 200 }]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  type Account,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import { PerpBondError, decodeContractError, executeBatch, executeWrite, supportsAtomicBatch } from "../src/tx";
+import { errorsAbi } from "../src/abis/errors";
+import { erc20Abi } from "../src/abis/erc20";
+import { vaultAbi } from "../src/abis/vault";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const VAULT = "0x2222222222222222222222222222222222222222";
+const USER = "0x000000000000000000000000000000000000a11c";
+const account = { address: USER, type: "json-rpc" } as Account;
+
+const hashOf = (n: number) => `0x${n.toString(16).padStart(64, "0")}` as Hash;
+
+/** A `simulateContract` failure the way viem reports a custom-error revert. */
+const reverted = (errorName: string) => new ContractFunctionExecutionError(
+  new ContractFunctionRevertedError({
+    abi: errorsAbi, functionName: "deposit", data: encodeErrorResult({ abi: errorsAbi, errorName: errorName as "Paused" }),
+  }),
+  { abi: vaultAbi, functionName: "deposit", args: [5_000_000n, USER], contractAddress: VAULT },
+);
+
+/** An ERC-20 Transfer log as it appears in a receipt. */
+const transferLog = (value: bigint, transactionHash: Hash) => ({
+  address: USDC,
+  topics: encodeEventTopics({ abi: erc20Abi, eventName: "Transfer", args: { from: USER, to: VAULT } }),
+  data: encodeAbiParameters([{ type: "uint256" }], [value]),
+  blockNumber: 10n, blockHash: hashOf(10), transactionHash, transactionIndex: 0, logIndex: 0, removed: false,
+});
+
+function clients({ status = "success", simulateError }: { status?: "success" | "reverted"; simulateError?: Error } = {}) {
+  const publicClient = {
+    simulateContract: vi.fn(async (req: object) => {
+      if (simulateError) throw simulateError;
+      return { request: req };
+    }),
+    waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: Hash }) => ({
+      transactionHash: hash, status, logs: [transferLog(5_000_000n, hash)],
+    })),
+  };
+  const walletClient = {
+    chain: { id: 8453 },
+    writeContract: vi.fn(async () => hashOf(1)),
+    getCapabilities: vi.fn(async () => ({ atomic: { status: "supported" } })),
+    sendCalls: vi.fn(async () => ({ id: "batch-1" })),
+    waitForCallsStatus: vi.fn(async () => ({ status: "success", receipts: [{ transactionHash: hashOf(2) }, { transactionHash: hashOf(3) }] })),
+  };
+  const ctx = {
+    publicClient: publicClient as unknown as PublicClient,
+    walletClient: walletClient as unknown as WalletClient,
+    account,
+    confirmations: 2,
+  };
+  return { publicClient, walletClient, ctx };
+}
+
+const deposit = { address: VAULT, abi: vaultAbi, functionName: "deposit", args: [5_000_000n, USER] } as const;
+
+describe("decodeContractError", () => {
+  it("maps a custom-error revert to its code and message", () => {
+    const err = decodeContractError(reverted("Paused"));
+    expect(err).toBeInstanceOf(PerpBondError);
+    expect(err).toMatchObject({ code: "Paused", message: "PerpBond is paused; deposits, claims and settings are disabled for now." });
+  });
+
+  it("keeps a wallet rejection's short message under Unknown", () => {
+    const err = decodeContractError(new UserRejectedRequestError(new Error("denied")));
+    expect(err).toMatchObject({ code: "Unknown", message: "User rejected the request." });
+  });
+
+  it("passes a PerpBondError through and wraps anything else", () => {
+    const own = new PerpBondError("Reverted", "x");
+    expect(decodeContractError(own)).toBe(own);
+    expect(decodeContractError("boom")).toMatchObject({ code: "Unknown", message: "boom" });
+  });
+});
+
+describe("executeWrite", () => {
+  it("simulates, sends, waits for the confirmations and parses the receipt's events", async () => {
+    const { publicClient, walletClient, ctx } = clients();
+    const res = await executeWrite(ctx, deposit);
+    expect(walletClient.writeContract).toHaveBeenCalledOnce();
+    expect(publicClient.waitForTransactionReceipt).toHaveBeenCalledWith({ hash: hashOf(1), confirmations: 2 });
+    expect(res.hash).toBe(hashOf(1));
+    expect(res.events).toHaveLength(1);
+    expect(res.events[0]).toMatchObject({ eventName: "Transfer", args: { from: USER, to: VAULT, value: 5_000_000n } });
+  });
+
+  it("surfaces a simulation revert as its custom error without sending", async () => {
+    const { walletClient, ctx } = clients({ simulateError: reverted("CapExceeded") });
+    await expect(executeWrite(ctx, deposit)).rejects.toMatchObject({ code: "CapExceeded" });
+    expect(walletClient.writeContract).not.toHaveBeenCalled();
+  });
+
+  it("throws Reverted with the hash when the transaction mines but fails", async () => {
+    const { ctx } = clients({ status: "reverted" });
+    const err = await executeWrite(ctx, deposit).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(PerpBondError);
+    expect(err).toMatchObject({ code: "Reverted", details: { hash: hashOf(1) } });
+  });
+});
+
+describe("supportsAtomicBatch", () => {
+  it("is true only when the wallet reports atomic support on its chain", async () => {
+    const { walletClient } = clients();
+    const wallet = walletClient as unknown as WalletClient;
+    expect(await supportsAtomicBatch(wallet, account)).toBe(true);
+    expect(walletClient.getCapabilities).toHaveBeenCalledWith({ account, chainId: 8453 });
+
+    walletClient.getCapabilities.mockResolvedValueOnce({ atomic: { status: "unsupported" } });
+    expect(await supportsAtomicBatch(wallet, account)).toBe(false);
+    walletClient.getCapabilities.mockRejectedValueOnce(new Error("method not found"));
+    expect(await supportsAtomicBatch(wallet, account)).toBe(false);
+    expect(await supportsAtomicBatch({ ...walletClient, chain: undefined } as unknown as WalletClient, account)).toBe(false);
+  });
+});
+
+describe("executeBatch", () => {
+  const approve = { address: USDC, abi: erc20Abi, functionName: "approve", args: [VAULT, 5_000_000n] } as const;
+
+  it("sends one atomic batch and parses events across every receipt, confirming on the last", async () => {
+    const { publicClient, walletClient, ctx } = clients();
+    const res = await executeBatch(ctx, [approve, deposit]);
+    expect(walletClient.sendCalls).toHaveBeenCalledWith(expect.objectContaining({ forceAtomic: true }));
+    expect(publicClient.waitForTransactionReceipt.mock.calls.map(([p]) => p)).toEqual([
+      { hash: hashOf(2), confirmations: 1 },
+      { hash: hashOf(3), confirmations: 2 },
+    ]);
+    expect(res.hash).toBe(hashOf(3));
+    expect(res.events.map((e) => e.eventName)).toEqual(["Transfer", "Transfer"]);
+  });
+
+  it("throws Reverted when the batch fails", async () => {
+    const { walletClient, ctx } = clients();
+    walletClient.waitForCallsStatus.mockResolvedValueOnce({ status: "failure", receipts: [{ transactionHash: hashOf(2) }] });
+    await expect(executeBatch(ctx, [approve, deposit])).rejects.toMatchObject({ code: "Reverted", details: { hash: hashOf(2) } });
+  });
+});
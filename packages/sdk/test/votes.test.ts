@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { buildVoteIntents, inactiveVoteAdapters, normaliseWeights } from "../src/votes";
+
+const ADAPTER = "0x1111111111111111111111111111111111111111";
+const GAUGE_A = "0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa";
+const GAUGE_B = "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB";
+
+describe("normaliseWeights", () => {
+  it("scales to the total and hands the remainder to the largest fractions", () => {
+    expect(normaliseWeights([1, 2])).toEqual([3333n, 6667n]);
+    expect(normaliseWeights([25, 75])).toEqual([2500n, 7500n]);
+    expect(normaliseWeights([1, 1], 3n)).toEqual([2n, 1n]);
+  });
+
+  it("breaks ties by position and always sums to the total", () => {
+    const w = normaliseWeights([1, 1, 1]);
+    expect(w).toEqual([3334n, 3333n, 3333n]);
+    expect(w.reduce((a, b) => a + b, 0n)).toBe(10_000n);
+  });
+
+  it("rejects weights that don't sum above zero", () => {
+    expect(() => normaliseWeights([])).toThrow("more than zero");
+    expect(() => normaliseWeights([0, 0])).toThrow("more than zero");
+  });
+});
+
+describe("buildVoteIntents", () => {
+  it("normalises raw and percentage weights per adapter with checksummed addresses", () => {
+    const intents = buildVoteIntents({
+      [ADAPTER.toLowerCase()]: { [GAUGE_A.toLowerCase()]: "40%", [GAUGE_B]: " 60% " },
+      [GAUGE_B]: { [GAUGE_A]: 3 },
+    });
+    expect(intents).toEqual([
+      { adapter: ADAPTER, gauges: [GAUGE_A, GAUGE_B], weights: [4000n, 6000n] },
+      { adapter: GAUGE_B, gauges: [GAUGE_A], weights: [10_000n] },
+    ]);
+  });
+
+  it("rejects malformed plans", () => {
+    expect(() => buildVoteIntents({ "0x12": { [GAUGE_A]: 1 } })).toThrow("bad adapter address");
+    expect(() => buildVoteIntents({ [ADAPTER]: {} })).toThrow("no gauges");
+    expect(() => buildVoteIntents({ [ADAPTER]: { "0x12": 1 } })).toThrow("bad gauge address");
+    expect(() => buildVoteIntents({ [ADAPTER]: { [GAUGE_A]: 1, [GAUGE_A.toLowerCase()]: 1 } })).toThrow("duplicate gauge");
+    expect(() => buildVoteIntents({ [ADAPTER]: { [GAUGE_A]: 0 } })).toThrow("weight must be > 0");
+    expect(() => buildVoteIntents({ [ADAPTER]: { [GAUGE_A]: "x%" } })).toThrow("weight must be > 0");
+    expect(() => buildVoteIntents({ [ADAPTER]: { [GAUGE_A]: "50%", [GAUGE_B]: 1 } })).toThrow("mix of percentages");
+    expect(() => buildVoteIntents({ [ADAPTER]: { [GAUGE_A]: "50%", [GAUGE_B]: "40%" } })).toThrow("sum to 90%");
+  });
+
+  it("lists intents for adapters that aren't active", () => {
+    const intents = buildVoteIntents({ [ADAPTER]: { [GAUGE_A]: 1 }, [GAUGE_B]: { [GAUGE_A]: 1 } });
+    expect(inactiveVoteAdapters(intents, [GAUGE_B.toLowerCase()])).toEqual([ADAPTER]);
+  });
+});
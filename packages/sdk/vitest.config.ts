@@ -0,0 +1,7 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // tsconfig.json extends a root config that isn't checked in; hand esbuild the options it needs directly.
+  esbuild: { tsconfigRaw: JSON.stringify({ compilerOptions: { target: "es2022" } }) },
+  test: { include: ["test/**/*.test.ts"] },
+});